@@ -0,0 +1,70 @@
+/**
+ * Storage of cached RPC results. Methods may return promises, so that the
+ * cache can be kept out of process (e.g. in Redis or IndexedDB).
+ */
+export interface ICacheStore {
+  /**
+   * Returns the stored entry, or undefined if there is none.
+   */
+  get(key: string): ICacheEntry | undefined | Promise<ICacheEntry | undefined>
+  set(key: string, entry: ICacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  clear(): void | Promise<void>
+}
+
+export interface ICacheEntry {
+  /**
+   * The block the result belongs to.
+   */
+  blockNumber: number
+
+  /**
+   * The RPC result.
+   */
+  result: any
+}
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * LRUCacheStore keeps up to `maxEntries` entries in memory, and evicts the
+ * least recently used entry when it is full.
+ */
+export class LRUCacheStore implements ICacheStore {
+  // a Map iterates in insertion order, so the first key is the least recently
+  // used one
+  private _entries: Map<string, ICacheEntry> = new Map()
+
+  constructor(public maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  public get size(): number {
+    return this._entries.size
+  }
+
+  public get(key: string): ICacheEntry | undefined {
+    const entry = this._entries.get(key)
+    if (entry !== undefined) {
+      this._entries.delete(key)
+      this._entries.set(key, entry)
+    }
+
+    return entry
+  }
+
+  public set(key: string, entry: ICacheEntry) {
+    this._entries.delete(key)
+    this._entries.set(key, entry)
+
+    while (this._entries.size > this.maxEntries) {
+      this._entries.delete(this._entries.keys().next().value)
+    }
+  }
+
+  public delete(key: string) {
+    this._entries.delete(key)
+  }
+
+  public clear() {
+    this._entries.clear()
+  }
+}
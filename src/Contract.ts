@@ -2,8 +2,9 @@ import { IABIMethod, IParsedLog } from "./ethjs-abi"
 import { EventEmitter } from "eventemitter3"
 
 import { decodeOutputs, encodeInputs, ContractLogDecoder } from "./abi"
+import { ContractErrorDecoder } from "./ContractErrorDecoder"
 
-import { TxReceiptPromise } from "./TxReceiptPromise"
+import { ITxReceiptConfirmOptions, TxReceiptPromise } from "./TxReceiptPromise"
 
 import { MethodMap } from "./MethodMap"
 import {
@@ -12,14 +13,21 @@ import {
   IGetTransactionReceiptBase,
   ISendTransactionResult,
   IGetTransactionReceiptResult,
+  IReplaceTransactionRequest,
   typeBlockTags,
   ILogEntry,
   IGetLogsRequest,
   ITransactionLog
 } from "./EthRPC"
-import { sleep } from "./sleep"
-import { ICancelFunction, ICancellableEventEmitter } from "./EventListener"
+import {
+  EventListener,
+  ICancelFunction,
+  ICancellableEventEmitter,
+  IOnLogOptions
+} from "./EventListener"
 import { add0xPrefix } from "./convert"
+import { ContractRevertError, TransactionFailedError } from "./errors"
+import { IRPCCallOption } from "./RPCRaw"
 
 /**
  * The callback function invoked for each additional confirmation
@@ -32,12 +40,25 @@ export type IContractSendConfirmationHandler = (
 /**
  * @param n Number of confirmations to wait for
  * @param handler The callback function invoked for each additional confirmation
+ * @param opts Poll interval, timeout and cancellation of the wait
  */
 export type IContractSendConfirmFunction = (
   n?: number,
-  handler?: IContractSendConfirmationHandler
+  handler?: IContractSendConfirmationHandler,
+  opts?: ITxReceiptConfirmOptions
 ) => Promise<ITransactionReceipt>
 
+/**
+ * Replace a pending transaction. See `EthRPC#speedUp` and `EthRPC#cancel`.
+ *
+ * @param fees fees of the replacement, bumped by 10% if not given
+ * @returns the replacement transaction
+ */
+export type IContractSendReplaceFunction = (
+  fees?: IReplaceTransactionRequest,
+  opts?: IRPCCallOption
+) => Promise<ISendTransactionResult>
+
 /**
  * Result of contract send.
  */
@@ -48,10 +69,21 @@ export interface IContractSendResult extends IGetTransactionResult {
   method: string
 
   /**
-   * Wait for transaction confirmations.
+   * Wait for transaction confirmations. Follows replacements sent by
+   * `speedUp` and `cancel`; the receipt is of the transaction that was mined.
    */
   confirm: IContractSendConfirmFunction
 
+  /**
+   * Resend the transaction with higher fees.
+   */
+  speedUp: IContractSendReplaceFunction
+
+  /**
+   * Replace the transaction with a zero-value transfer to the sender.
+   */
+  cancel: IContractSendReplaceFunction
+
   txid: string
 }
 
@@ -92,7 +124,7 @@ export interface IDeployedContractInfo extends IContractInfo {
 /**
  * Options for `send` to a contract method.
  */
-export interface IContractSendRequestOptions {
+export interface IContractSendRequestOptions extends IRPCCallOption {
   /**
    * The amount in Ether to send. eg 0.1, default: 0
    */
@@ -104,10 +136,25 @@ export interface IContractSendRequestOptions {
   gasLimit?: number | string
 
   /**
-   * gasPrice
+   * gasPrice, for legacy transactions
    */
   gasPrice?: number | string
 
+  /**
+   * maxFeePerGas, for EIP-1559 transactions
+   */
+  maxFeePerGas?: number | string
+
+  /**
+   * maxPriorityFeePerGas, for EIP-1559 transactions
+   */
+  maxPriorityFeePerGas?: number | string
+
+  /**
+   * Transaction type: 0 for legacy, 2 for EIP-1559
+   */
+  type?: number | string
+
   /**
    * The ethereum address that will be used as sender.
    */
@@ -119,7 +166,7 @@ export interface IContractSendRequestOptions {
 /**
  * Options for `call` to a contract method.
  */
-export interface IContractCallRequestOptions {
+export interface IContractCallRequestOptions extends IRPCCallOption {
   /**
    * The quantum/ethereum address that will be used as sender.
    */
@@ -165,6 +212,12 @@ export interface IContractInitOptions {
    */
   logDecoder?: ContractLogDecoder
 
+  /**
+   * revert data decoder. Like `logDecoder`, ContractsRepo would pass in an
+   * errorDecoder that knows about the custom errors of all contracts.
+   */
+  errorDecoder?: ContractErrorDecoder
+
   /**
    * If a contract's use case requires numbers more than 53 bits, use bn.js to
    * represent numbers instead of native JavaScript numbers. (default = false)
@@ -172,8 +225,6 @@ export interface IContractInitOptions {
   useBigNumber?: boolean
 }
 
-const ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME = 7500
-
 /**
  * Contract represents a Smart Contract deployed on the blockchain.
  */
@@ -185,6 +236,7 @@ export class Contract {
 
   private methodMap: MethodMap
   private _logDecoder: ContractLogDecoder
+  private _errorDecoder: ContractErrorDecoder
   // private _useBigNumber: boolean
 
   /**
@@ -205,6 +257,8 @@ export class Contract {
     this.address = add0xPrefix(info.address)
 
     this._logDecoder = opts.logDecoder || new ContractLogDecoder(this.info.abi)
+    this._errorDecoder =
+      opts.errorDecoder || new ContractErrorDecoder(this.info.abi)
 
     // this._useBigNumber = false
   }
@@ -232,14 +286,25 @@ export class Contract {
     opts: IContractCallRequestOptions = {}
   ): Promise<string> {
     const calldata = this.encodeParams(method, args)
+    const { cancelToken, timeout, ...callOpts } = opts
 
     const req = {
-      ...opts,
+      ...callOpts,
       to: this.address,
       data: calldata
     }
 
-    return this.rpc.call(req)
+    try {
+      return await this.rpc.call(req, { cancelToken, timeout })
+    } catch (err) {
+      if (err instanceof ContractRevertError && err.revertData) {
+        // decode custom errors of the ABI
+        const reason = this._errorDecoder.decode(err.revertData) || err.reason
+        throw new ContractRevertError(err.revertData, reason, err)
+      }
+
+      throw err
+    }
   }
 
   /**
@@ -417,6 +482,30 @@ export class Contract {
     return await converter(value)
   }
 
+  /**
+   * Estimate the gas a `send` to a contract method needs.
+   *
+   * @param method name of contract method to send to
+   * @param args arguments
+   * @param opts send options
+   */
+  public async estimateGas(
+    method: string,
+    args: any[] = [],
+    opts: IContractSendRequestOptions = {}
+  ): Promise<number> {
+    const calldata = this.encodeParams(method, args)
+    const { cancelToken, timeout, nonce: _nonce, ...sendOpts } = opts
+
+    const req = {
+      ...sendOpts,
+      to: this.address,
+      data: calldata
+    }
+
+    return this.rpc.estimateGas(req, { cancelToken, timeout })
+  }
+
   /**
    * Create a transaction that calls a method using ABI encoding, and return the
    * RPC result as is. A transaction will require network consensus to confirm,
@@ -441,14 +530,15 @@ export class Contract {
     }
 
     const calldata = encodeInputs(methodABI, args)
+    const { cancelToken, timeout, ...sendOpts } = opts
 
     const req = {
-      ...opts,
+      ...sendOpts,
       to: this.address,
       data: calldata
     }
 
-    return this.rpc.sendTransaction(req)
+    return this.rpc.sendTransaction(req, { cancelToken, timeout })
   }
 
   /**
@@ -457,11 +547,13 @@ export class Contract {
    * @param txid transaction id. Must be an in-wallet transaction
    * @param confirm how many confirmations to ensure
    * @param onConfirm callback that receives the receipt for each additional confirmation
+   * @param opts poll interval, timeout and cancellation of the wait
    */
   public async confirm(
     txid: string,
     confirm?: number,
-    onConfirm?: IContractSendConfirmationHandler
+    onConfirm?: IContractSendConfirmationHandler,
+    opts: ITxReceiptConfirmOptions = {}
   ): Promise<ITransactionReceipt> {
     const txrp = new TxReceiptPromise(this.rpc, txid)
     if (onConfirm) {
@@ -471,7 +563,25 @@ export class Contract {
       })
     }
 
-    const receipt = await txrp.confirm(confirm)
+    let receipt: IGetTransactionReceiptResult
+    try {
+      receipt = await txrp.confirm(confirm, opts)
+    } catch (err) {
+      if (err instanceof TransactionFailedError) {
+        // report the failed receipt with decoded logs
+        const failedReceipt = err.receipt as IGetTransactionReceiptResult
+        const reason =
+          (err.revertData && this._errorDecoder.decode(err.revertData)) ||
+          err.reason
+        throw new TransactionFailedError(
+          this._makeSendTxReceipt(failedReceipt),
+          err.revertData,
+          reason
+        )
+      }
+
+      throw err
+    }
 
     return this._makeSendTxReceipt(receipt)
   }
@@ -506,24 +616,66 @@ export class Contract {
     }
 
     const calldata = encodeInputs(methodABI, args)
+    const { cancelToken, timeout, ...sendOpts } = opts
+
+    // one deadline for sending, and getting the sent transaction
+    const { txid, transaction } = await this.rpc.withDeadline(
+      "send",
+      { cancelToken, timeout },
+      async (deadline) => {
+        const sent = await this.rpc.sendTransaction(
+          {
+            ...sendOpts,
+            data: calldata,
+            to: this.address
+          },
+          deadline
+        )
+
+        const tx = await this.rpc.getTransaction(sent.txid, deadline)
+        return { txid: sent.txid, transaction: tx! }
+      }
+    )
+
+    // txids of replacements, latest last
+    const replacements: string[] = []
+    const latestTxid = () => replacements[replacements.length - 1] || txid
+
+    const confirm = (
+      n?: number,
+      handler?: IContractSendConfirmationHandler,
+      confirmOpts?: ITxReceiptConfirmOptions
+    ) => this.confirm(txid, n, handler, { replacements, ...confirmOpts })
+
+    const speedUp = async (
+      fees?: IReplaceTransactionRequest,
+      replaceOpts?: IRPCCallOption
+    ) => {
+      const replacement = await this.rpc.speedUp(
+        latestTxid(),
+        fees,
+        replaceOpts
+      )
+      replacements.push(replacement.txid)
+      return replacement
+    }
 
-    const sentResult = await this.rpc.sendTransaction({
-      ...opts,
-      data: calldata,
-      to: this.address
-    })
-
-    const txid = sentResult.txid
-    const transaction = (await this.rpc.getTransaction(txid))!
-
-    const confirm = (n?: number, handler?: any) =>
-      this.confirm(txid, n, handler)
+    const cancel = async (
+      fees?: IReplaceTransactionRequest,
+      replaceOpts?: IRPCCallOption
+    ) => {
+      const replacement = await this.rpc.cancel(latestTxid(), fees, replaceOpts)
+      replacements.push(replacement.txid)
+      return replacement
+    }
 
     const sendTx = {
       ...transaction,
       txid,
       method,
-      confirm
+      confirm,
+      speedUp,
+      cancel
     }
 
     return sendTx
@@ -553,67 +705,25 @@ export class Contract {
   }
 
   /**
-   * Subscribe to contract's events, using callback interface.
+   * Subscribe to contract's events, using callback interface. See
+   * `EventListener#onLog`.
    */
   public onLog(
     fn: (entry: IContractEventLog) => void,
-    opts: IGetLogsRequest = {}
+    opts: IOnLogOptions = {}
   ): ICancelFunction {
-    let fromBlock = opts.fromBlock || "latest"
-    let toBlock = opts.toBlock || "latest"
-
-    let canceled = false
-    let latestBlockNum: number
-    let isFirstFetch = true
-    const fetchToLatest = typeof fromBlock !== "number"
-
-    const loop = async () => {
-      while (!canceled) {
-        latestBlockNum = await this.rpc.getBlockNumber()
-
-        if (typeof fromBlock !== "number") {
-          fromBlock = latestBlockNum
-        }
-
-        if (fetchToLatest) {
-          toBlock = latestBlockNum
-        }
-
-        if (fromBlock > toBlock || (!isFirstFetch && fromBlock === toBlock)) {
-          await sleep(ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME)
-          continue
-        }
-
-        if (isFirstFetch) {
-          isFirstFetch = false
-        }
-
-        const result = await this.getLogs({
-          ...opts,
-          fromBlock,
-          toBlock
-        })
-
-        for (const entry of result) {
-          fn(entry)
-        }
-
-        fromBlock = latestBlockNum + 1
-      }
-    }
-
-    loop()
+    const listener = new EventListener(this.rpc, this.logDecoder)
 
-    // return a cancel function
-    return () => {
-      canceled = true
-    }
+    return listener.onLog(fn, {
+      ...opts,
+      address: this.address
+    })
   }
 
   /**
    * Subscribe to contract's events, use EventsEmitter interface.
    */
-  public logEmitter(opts: IGetLogsRequest = {}): ICancellableEventEmitter {
+  public logEmitter(opts: IOnLogOptions = {}): ICancellableEventEmitter {
     const emitter = new EventEmitter()
 
     const cancel = this.onLog((entry) => {
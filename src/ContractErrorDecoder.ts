@@ -0,0 +1,151 @@
+import { IABIMethod, IETHABI } from "./ethjs-abi"
+
+const { decodeParams, encodeSignature } = require("ethjs-abi") as IETHABI
+
+/**
+ * The reason of a revert, decoded from revert data.
+ */
+export interface IRevertReason {
+  /**
+   * "Error" for `require` and `revert` with a message, "Panic" for failed
+   * assertions and other internal errors, or the name of a custom error.
+   */
+  name: string
+
+  /**
+   * Decoded arguments of the error.
+   */
+  args: any[]
+
+  /**
+   * Human readable reason, e.g. the message of `require`.
+   */
+  message: string
+
+  /**
+   * The raw revert data.
+   */
+  data: string
+}
+
+const ERROR_STRING: IABIMethod = builtinError("Error", "string")
+const PANIC: IABIMethod = builtinError("Panic", "uint256")
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: { [code: number]: string } = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function"
+}
+
+/**
+ * ContractErrorDecoder decodes revert data: `Error(string)` of `require` and
+ * `revert`, `Panic(uint256)`, and the custom errors defined in an ABI.
+ */
+export class ContractErrorDecoder {
+  private _errors: Map<string, IABIMethod> = new Map()
+
+  constructor(abi: IABIMethod[] = []) {
+    for (const def of [ERROR_STRING, PANIC, ...abi]) {
+      if (def.type === "error") {
+        this._errors.set(encodeSignature(def), def)
+      }
+    }
+  }
+
+  /**
+   * @param data revert data, i.e. the return data of a reverted call
+   * @returns the reason, or null if the data is not an error known to the ABI.
+   */
+  public decode(data: string): IRevertReason | null {
+    const selector = data.slice(0, 10).toLowerCase()
+    const def = this._errors.get(selector)
+    if (def == null) {
+      return null
+    }
+
+    let args: any[]
+    try {
+      const types = def.inputs.map((input) => input.type)
+      const result: { length: number; [index: number]: any } = {
+        length: types.length,
+        ...decodeParams([], types, `0x${data.slice(10)}`)
+      }
+      args = Array.from(result)
+    } catch (err) {
+      // malformed data, or types that the ABI decoder doesn't support
+      return null
+    }
+
+    return {
+      name: def.name,
+      args,
+      message: errorMessage(def, args),
+      data
+    }
+  }
+}
+
+function builtinError(name: string, type: string): IABIMethod {
+  return {
+    name,
+    type: "error",
+    payable: false,
+    inputs: [{ name: "", type, indexed: false }],
+    outputs: [],
+    constant: false,
+    anonymous: false
+  }
+}
+
+function errorMessage(def: IABIMethod, args: any[]): string {
+  if (def === ERROR_STRING) {
+    return args[0]
+  }
+
+  if (def === PANIC) {
+    const code = args[0].toNumber()
+    const reason = PANIC_REASONS[code] || "unknown panic"
+    return `${reason} (0x${code.toString(16)})`
+  }
+
+  return `${def.name}(${args.map(String).join(", ")})`
+}
+
+/**
+ * Find the revert data in the `data` of a JSON-RPC error. Nodes return it as a
+ * hex string, nested in an object, or (ganache) keyed by transaction hash.
+ */
+export function findRevertData(data: any): string | undefined {
+  if (typeof data === "string") {
+    return /^0x([0-9a-f]{2})*$/i.test(data) ? data : undefined
+  }
+
+  if (data == null || typeof data !== "object") {
+    return undefined
+  }
+
+  if (data.data != null) {
+    return findRevertData(data.data)
+  }
+
+  if (data.return != null) {
+    return findRevertData(data.return)
+  }
+
+  for (const key of Object.keys(data)) {
+    const value = data[key]
+    if (value != null && typeof value === "object" && value.return != null) {
+      return findRevertData(value.return)
+    }
+  }
+
+  return undefined
+}
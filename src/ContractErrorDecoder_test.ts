@@ -0,0 +1,69 @@
+import "mocha"
+import { assert } from "chai"
+
+import { ContractErrorDecoder, findRevertData } from "./ContractErrorDecoder"
+import { IABIMethod, IETHABI } from "./ethjs-abi"
+
+const { encodeParams } = require("ethjs-abi") as IETHABI
+
+describe("ContractErrorDecoder", () => {
+  const insufficientBalance: IABIMethod = {
+    name: "InsufficientBalance",
+    type: "error",
+    payable: false,
+    inputs: [
+      { name: "available", type: "uint256", indexed: false },
+      { name: "required", type: "uint256", indexed: false }
+    ],
+    outputs: [],
+    constant: false,
+    anonymous: false
+  }
+
+  const decoder = new ContractErrorDecoder([insufficientBalance])
+
+  const withSelector = (selector: string, types: string[], values: any[]) =>
+    selector + encodeParams(types, values).slice(2)
+
+  it("decodes Error(string)", () => {
+    const data = withSelector("0x08c379a0", ["string"], ["not owner"])
+
+    const reason = decoder.decode(data)!
+    assert.equal(reason.name, "Error")
+    assert.equal(reason.message, "not owner")
+    assert.equal(reason.data, data)
+  })
+
+  it("decodes Panic(uint256)", () => {
+    const data = withSelector("0x4e487b71", ["uint256"], [0x11])
+
+    const reason = decoder.decode(data)!
+    assert.equal(reason.name, "Panic")
+    assert.equal(reason.message, "arithmetic overflow or underflow (0x11)")
+  })
+
+  it("decodes custom errors of the ABI", () => {
+    const data = withSelector("0xcf479181", ["uint256", "uint256"], [1, 2])
+
+    const reason = decoder.decode(data)!
+    assert.equal(reason.name, "InsufficientBalance")
+    assert.equal(reason.args[1].toNumber(), 2)
+    assert.equal(reason.message, "InsufficientBalance(1, 2)")
+  })
+
+  it("returns null for unknown or empty revert data", () => {
+    assert.isNull(decoder.decode("0x12345678"))
+    assert.isNull(decoder.decode("0x"))
+  })
+
+  it("finds revert data in JSON-RPC error data", () => {
+    assert.equal(findRevertData("0x08c379a0"), "0x08c379a0")
+    assert.equal(findRevertData({ data: "0x08c379a0" }), "0x08c379a0")
+    assert.equal(
+      findRevertData({ "0xabcd": { error: "revert", return: "0x08c379a0" } }),
+      "0x08c379a0"
+    )
+    assert.isUndefined(findRevertData("Reverted"))
+    assert.isUndefined(findRevertData(undefined))
+  })
+})
@@ -1,10 +1,10 @@
 import "mocha"
 import { assert } from "chai"
 
-import { repoData, ethRpc } from "./test"
+import { repoData, ethRpc, describeWithTestNode } from "./test"
 import { ContractsRepo } from "./ContractsRepo"
 
-describe("ContractsRepo", () => {
+describeWithTestNode("ContractsRepo", () => {
   const repo = new ContractsRepo(ethRpc, repoData)
 
   it("can instantiate a contract", () => {
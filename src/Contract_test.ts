@@ -1,10 +1,20 @@
 import "mocha"
 import { assert } from "chai"
 
-import { repoData, ethRpc, assertThrow } from "./test"
+import {
+  assertThrow,
+  describeWithTestNode,
+  ethRpc,
+  repoData
+} from "./test"
 import { Contract } from "./Contract"
+import { ContractRevertError, TransactionFailedError } from "./errors"
+import { IETHABI } from "./ethjs-abi"
+import { fooABI, useMockFoo } from "./test/mock"
 
-describe("Contract", () => {
+const { encodeParams, encodeSignature } = require("ethjs-abi") as IETHABI
+
+describeWithTestNode("Contract", () => {
   // don't act as sender
   const { sender: _, ...info } = repoData.contracts.Methods
 
@@ -141,3 +151,48 @@ describe("Contract", () => {
     })
   })
 })
+
+describe("Contract with MockEthNode", () => {
+  const [getFoo, setFoo] = fooABI
+
+  const mock = useMockFoo()
+
+  describe("reverts", () => {
+    // Error("not owner")
+    const notOwner = encodeParams(["string"], ["not owner"]).replace(
+      "0x",
+      "0x08c379a0"
+    )
+
+    it("decodes the revert reason of a call", async () => {
+      mock.node.failMethod(encodeSignature(getFoo), notOwner)
+
+      await assertThrow(
+        () => mock.contract.call("getFoo"),
+        "call reverted",
+        (err) => {
+          assert.instanceOf(err, ContractRevertError)
+          assert.equal(err.reason.name, "Error")
+          assert.equal(err.message, "execution reverted: not owner")
+        }
+      )
+    })
+
+    it("recovers the revert reason of a failed transaction", async () => {
+      mock.node.failMethod(encodeSignature(setFoo), notOwner)
+
+      const tx = await mock.contract.send("setFoo", [1])
+      mock.node.mine()
+
+      await assertThrow(
+        () => tx.confirm(0, undefined, { pollInterval: 1 }),
+        "transaction failed",
+        (err) => {
+          assert.instanceOf(err, TransactionFailedError)
+          assert.equal(err.revertData, notOwner)
+          assert.equal(err.reason.message, "not owner")
+        }
+      )
+    })
+  })
+})
@@ -1,6 +1,7 @@
 import { IContractInfo, Contract } from "./Contract"
 import { IABIMethod } from "./ethjs-abi"
 import { ContractLogDecoder } from "./abi"
+import { ContractErrorDecoder } from "./ContractErrorDecoder"
 import { EventListener } from "./EventListener"
 import { EthRPC } from "./EthRPC"
 
@@ -47,9 +48,15 @@ export class ContractsRepo {
    */
   public logDecoder: ContractLogDecoder
 
+  /**
+   * An errorDecoder that knows about custom errors defined in all known
+   * contracts.
+   */
+  public errorDecoder: ContractErrorDecoder
+
   constructor(private rpc: EthRPC, private repoData: IContractsRepoData) {
-    const eventABIs = this.allEventABIs()
-    this.logDecoder = new ContractLogDecoder(eventABIs)
+    this.logDecoder = new ContractLogDecoder(this.allABIs("event"))
+    this.errorDecoder = new ContractErrorDecoder(this.allABIs("error"))
   }
 
   public contract(name: string): Contract {
@@ -59,7 +66,10 @@ export class ContractsRepo {
     }
 
     // Instantiate the contract with a log decoder that can handle all known events
-    return new Contract(this.rpc, info, { logDecoder: this.logDecoder })
+    return new Contract(this.rpc, info, {
+      logDecoder: this.logDecoder,
+      errorDecoder: this.errorDecoder
+    })
   }
 
   public eventListener(): EventListener {
@@ -67,10 +77,10 @@ export class ContractsRepo {
   }
 
   /**
-   *  Combine all known event ABIs into one single array
+   *  Combine all known ABIs of a type (e.g. "event") into one single array
    */
-  private allEventABIs(): IABIMethod[] {
-    const allEventABIs: IABIMethod[] = []
+  private allABIs(type: string): IABIMethod[] {
+    const allABIs: IABIMethod[] = []
 
     const { contracts, libraries, related } = this.repoData
 
@@ -86,16 +96,16 @@ export class ContractsRepo {
       mergeDefs(related)
     }
 
-    return allEventABIs
+    return allABIs
 
-    // inner utility function for allEventABIs
+    // inner utility function for allABIs
     function mergeDefs(abiDefs: IABIDefs) {
       for (const key of Object.keys(abiDefs)) {
         const defs = abiDefs[key].abi
 
         for (const def of defs) {
-          if (def.type === "event") {
-            allEventABIs.push(def)
+          if (def.type === type) {
+            allABIs.push(def)
           }
         }
       }
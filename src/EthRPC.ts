@@ -1,10 +1,37 @@
-import { RPCRaw } from "./RPCRaw"
 import {
+  RPCRaw,
+  IRPCBatchResult,
+  IRPCCallOption,
+  IRPCRawOptions
+} from "./RPCRaw"
+import { ISubscription, ITransport, SubscriptionListener } from "./Transport"
+import { ContractErrorDecoder, findRevertData } from "./ContractErrorDecoder"
+import {
+  AuthorizationDeniedError,
+  ContractRevertError,
+  FilterNotFoundError,
+  RateLimitedError,
+  RPCError,
+  TransactionNotFoundError,
+  UnknownMethodError
+} from "./errors"
+import {
+  hexToBN,
   hexlify,
   hexStripZeros,
   add0xPrefix,
   toNonNumberBlock
 } from "./convert"
+import {
+  decodeBlock,
+  decodeTransaction,
+  decodeTransactionReceipt,
+  IDecodedBlock,
+  IDecodedTransaction,
+  IDecodedTransactionReceipt
+} from "./decode"
+import { NonceManager } from "./NonceManager"
+import { ISigner } from "./Signer"
 
 export interface ITransactionLog {
   address: string
@@ -59,13 +86,41 @@ export interface ISendTransactionRequest {
   gasLimit?: number | string
 
   /**
-   * Ethereum price per gas unit
+   * Ethereum price per gas unit, for legacy transactions.
    */
   gasPrice?: number | string
 
+  /**
+   * Maximum total fee per gas unit (base fee + priority fee), for EIP-1559
+   * transactions.
+   */
+  maxFeePerGas?: number | string
+
+  /**
+   * Maximum priority fee (tip to the miner) per gas unit, for EIP-1559
+   * transactions.
+   */
+  maxPriorityFeePerGas?: number | string
+
+  /**
+   * Transaction type: 0 for legacy, 2 for EIP-1559. By default, EIP-1559 fees
+   * are used if the latest block has a base fee.
+   */
+  type?: number | string
+
   nonce?: number | string
 }
 
+/**
+ * Fees of a replacement transaction. Fees not given are bumped by 10% from
+ * the replaced transaction, the minimum most nodes accept.
+ */
+export interface IReplaceTransactionRequest {
+  gasPrice?: number | string
+  maxFeePerGas?: number | string
+  maxPriorityFeePerGas?: number | string
+}
+
 export interface ISendTransactionResult {
   /**
    * The transaction id.
@@ -109,6 +164,9 @@ export interface IGetTransactionResult {
   value: string
   gas: string
   gasPrice: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  type?: string
   input: string
   blockHash?: string
   blockNumber?: string
@@ -133,9 +191,19 @@ export interface IGetTransactionReceiptBase {
 
   contractAddress: string | null
   logsBloom: string
-  status?: TRANSACTION_STATUS
+
+  /**
+   * "0x1" if the transaction succeeded, "0x0" if it failed. Not set by nodes
+   * before the Byzantium hard fork.
+   */
+  status?: string
+
+  effectiveGasPrice?: string
 }
 
+/**
+ * Status of a mined transaction.
+ */
 export enum TRANSACTION_STATUS {
   FAILED,
   SUCCESS
@@ -148,6 +216,127 @@ export interface IGetTransactionReceiptResult
 
 export type typeBlockTags = number | "latest" | "pending" | "earliest" | string
 
+/**
+ * A block. Transactions are hashes, or full transactions if requested.
+ */
+export interface IBlock<TTransaction = string> {
+  /**
+   * The block number. `null` when its pending.
+   */
+  number: string | null
+
+  /**
+   * hash of the block. `null` when its pending.
+   */
+  hash: string | null
+
+  parentHash: string
+
+  /**
+   * hash of the generated proof-of-work. `null` when its pending.
+   */
+  nonce: string | null
+
+  sha3Uncles: string
+
+  /**
+   * the bloom filter for the logs of the block. `null` when its pending.
+   */
+  logsBloom: string | null
+
+  transactionsRoot: string
+  stateRoot: string
+  receiptsRoot: string
+
+  /**
+   * address of the beneficiary of the mining rewards.
+   */
+  miner: string
+
+  difficulty: string
+  totalDifficulty: string
+  extraData: string
+
+  /**
+   * size of the block in bytes.
+   */
+  size: string
+
+  gasLimit: string
+  gasUsed: string
+
+  /**
+   * unix timestamp (in seconds) of when the block was collated.
+   */
+  timestamp: string
+
+  /**
+   * base fee per gas. Only set after the London hard fork (EIP-1559).
+   */
+  baseFeePerGas?: string
+
+  transactions: TTransaction[]
+  uncles: string[]
+}
+
+/**
+ * Result of `eth_feeHistory`.
+ */
+export interface IFeeHistory {
+  /**
+   * Lowest block number of the returned range.
+   */
+  oldestBlock: string
+
+  /**
+   * Base fees per gas of the blocks, including the block after the newest
+   * block of the range.
+   */
+  baseFeePerGas: string[]
+
+  /**
+   * Ratios of gas used to gas limit of the blocks.
+   */
+  gasUsedRatio: number[]
+
+  /**
+   * Priority fees per gas at the requested percentiles, for each block.
+   */
+  reward?: string[][]
+}
+
+/**
+ * Merkle proof of a storage slot, as returned by `eth_getProof`.
+ */
+export interface IStorageProof {
+  key: string
+  value: string
+
+  /**
+   * RLP encoded trie nodes from the storage root to the slot.
+   */
+  proof: string[]
+}
+
+/**
+ * Merkle proof of an account and some of its storage, as returned by
+ * `eth_getProof` (EIP-1186).
+ */
+export interface IAccountProof {
+  address: string
+
+  /**
+   * RLP encoded trie nodes from the state root to the account.
+   */
+  accountProof: string[]
+
+  balance: string
+  codeHash: string
+  nonce: string
+  storageHash: string
+  storageProof: IStorageProof[]
+}
+
 export interface IGetLogsRequest {
   /**
    * The block number to start looking for logs.
@@ -221,80 +410,283 @@ export interface ILogEntry {
   topics: string[]
 }
 
+export interface IAutoGasLimitOptions {
+  /**
+   * Safety margin applied to the estimated gas. (default = 1.2)
+   */
+  multiplier?: number
+}
+
+export interface IEthRPCOptions extends IRPCRawOptions {
+  /**
+   * Estimate the gas limit of transactions sent without `gasLimit`, instead of
+   * using the default gas limit of 200000.
+   */
+  autoGasLimit?: IAutoGasLimitOptions | boolean
+
+  /**
+   * Assign nonces to transactions sent without `nonce`, instead of relying on
+   * the node's wallet. Use this to send transactions concurrently from the
+   * same address. See `NonceManager`.
+   */
+  nonceManager?: boolean
+
+  /**
+   * Sign transactions locally and send them with `eth_sendRawTransaction`,
+   * instead of using an account unlocked on the node. Transactions are sent
+   * from the signer's address.
+   */
+  signer?: ISigner
+}
+
 const DEFAULT_GAS_LIMIT = 200000
 
+const DEFAULT_GAS_LIMIT_MULTIPLIER = 1.2
+
+const TRANSFER_GAS_LIMIT = 21000
+
+const builtinErrorDecoder = new ContractErrorDecoder()
+
+// 1.5 gwei, for nodes that don't support eth_maxPriorityFeePerGas
+const DEFAULT_MAX_PRIORITY_FEE_PER_GAS = 1500000000
+
+// errors of nodes that reject a send because its nonce is used already
+const NONCE_ERRORS = [
+  "nonce too low",
+  "already known",
+  "known transaction",
+  "replacement transaction underpriced"
+]
+
+interface IEncodedFees {
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  type?: string
+}
+
+interface IEncodedRequest extends IEncodedFees {
+  to: string
+  gas: string
+  from?: string
+  value?: string
+  nonce?: string
+  blockNumber?: string
+}
+
 export class EthRPC extends RPCRaw {
   private _sender: string | undefined
-
-  constructor(baseUrl: string, sender?: string) {
-    super(baseUrl)
+  private _autoGasLimit?: IAutoGasLimitOptions
+  private _nonceManager?: NonceManager
+  private _signer?: ISigner
+  private _chainID?: number
+
+  constructor(
+    provider: string | ITransport,
+    sender?: string,
+    opts: IEthRPCOptions = {}
+  ) {
+    super(provider, opts)
     this._sender = sender
+
+    if (opts.autoGasLimit) {
+      this._autoGasLimit =
+        opts.autoGasLimit === true ? {} : { ...opts.autoGasLimit }
+    }
+
+    if (opts.nonceManager) {
+      this._nonceManager = new NonceManager(this)
+    }
+
+    this._signer = opts.signer
+  }
+
+  /**
+   * The nonce manager, if enabled.
+   */
+  public get nonceManager(): NonceManager | undefined {
+    return this._nonceManager
+  }
+
+  /**
+   * The signer of transactions, if transactions are signed locally.
+   */
+  public get signer(): ISigner | undefined {
+    return this._signer
   }
 
-  public async getSender(): Promise<string | undefined> {
+  public async getSender(
+    opts: IRPCCallOption = {}
+  ): Promise<string | undefined> {
     if (this._sender) {
       return this._sender
     }
 
+    if (this._signer) {
+      return this._signer.getAddress()
+    }
+
     // we don't save sender, since accounts[0] might vary
-    const accounts = await this.getAccounts()
+    const accounts = await this.getAccounts(opts)
     return accounts[0]
   }
 
   public async sendTransaction(
-    req: ISendTransactionRequest
+    req: ISendTransactionRequest,
+    opts: IRPCCallOption = {}
   ): Promise<ISendTransactionResult> {
-    const { data } = req
-    const { blockNumber: _, ...encodedReq } = await this.encodeReq(req)
+    // one deadline for all the calls it takes to send
+    return this.withDeadline("sendTransaction", opts, (deadline) =>
+      this.sendWithin(req, deadline)
+    )
+  }
 
-    const args = [
-      {
-        data,
+  /**
+   * Resend a pending transaction with the same nonce and higher fees, so that
+   * it is mined sooner.
+   *
+   * @returns the replacement transaction
+   */
+  public async speedUp(
+    txid: string,
+    fees: IReplaceTransactionRequest = {},
+    opts: IRPCCallOption = {}
+  ): Promise<ISendTransactionResult> {
+    return this.withDeadline("speedUp", opts, async (deadline) => {
+      const tx = await this.getPendingTransaction(txid, deadline)
+
+      return this.sendTransaction(
+        {
+          from: tx.from,
+          to: tx.to,
+          data: tx.input,
+          value: tx.value,
+          gasLimit: tx.gas,
+          nonce: tx.nonce,
+          ...replacementFees(tx, fees)
+        },
+        deadline
+      )
+    })
+  }
+
+  /**
+   * Replace a pending transaction with a zero-value transfer to its sender,
+   * with the same nonce and higher fees.
+   *
+   * @returns the replacement transaction
+   */
+  public async cancel(
+    txid: string,
+    fees: IReplaceTransactionRequest = {},
+    opts: IRPCCallOption = {}
+  ): Promise<ISendTransactionResult> {
+    return this.withDeadline("cancel", opts, async (deadline) => {
+      const tx = await this.getPendingTransaction(txid, deadline)
+
+      return this.sendTransaction(
+        {
+          from: tx.from,
+          to: tx.from,
+          data: "0x",
+          value: 0,
+          gasLimit: TRANSFER_GAS_LIMIT,
+          nonce: tx.nonce,
+          ...replacementFees(tx, fees)
+        },
+        deadline
+      )
+    })
+  }
+
+  public async call(
+    req: ICallRequest,
+    opts: IRPCCallOption = {}
+  ): Promise<string> {
+    return this.withDeadline("call", opts, async (deadline) => {
+      const { data, from } = req
+      const {
+        from: _from,
+        nonce: _nonce,
+        blockNumber,
         ...encodedReq
+      } = await this.encodeReq(req, false, deadline)
+      const args: any[] = [
+        {
+          data,
+          from,
+          ...encodedReq
+        }
+      ]
+
+      if (blockNumber != null) {
+        args.push(blockNumber)
       }
-    ]
 
-    const txid = await this.rawCall("eth_sendTransaction", args)
-    return {
-      txid
-    }
+      try {
+        return await this.rawCall("eth_call", args, deadline)
+      } catch (err) {
+        throw revertError(err)
+      }
+    })
   }
 
-  public async call(req: ICallRequest): Promise<string> {
-    const { data, from } = req
-    const {
-      from: _from,
-      nonce: _nonce,
-      blockNumber,
-      ...encodedReq
-    } = await this.encodeReq(req, false)
-    const args: any[] = [
-      {
-        data,
+  /**
+   * Estimate the gas a transaction needs to execute.
+   *
+   * @param req the transaction. The default sender is used if `from` is not
+   * given.
+   */
+  public async estimateGas(
+    req: ICallRequest,
+    opts: IRPCCallOption = {}
+  ): Promise<number> {
+    return this.withDeadline("estimateGas", opts, async (deadline) => {
+      const { to, data, gasLimit, gasPrice, value, blockNumber } = req
+
+      const from =
+        req.from != null
+          ? add0xPrefix(req.from)
+          : await this.getSender(deadline)
+
+      const tx = {
         from,
-        ...encodedReq
+        to: add0xPrefix(to),
+        data,
+        gas: gasLimit == null ? undefined : hexStripZeros(hexlify(gasLimit)),
+        gasPrice:
+          gasPrice == null ? undefined : hexStripZeros(hexlify(gasPrice)),
+        value: value == null ? undefined : hexStripZeros(hexlify(value))
       }
-    ]
 
-    if (blockNumber != null) {
-      args.push(blockNumber)
-    }
+      const args: any[] = [tx]
+      if (blockNumber != null) {
+        args.push(toNonNumberBlock(blockNumber))
+      }
 
-    return this.rawCall("eth_call", args)
+      const gas = await this.rawCall("eth_estimateGas", args, deadline)
+      return Number(gas)
+    })
   }
 
   public async getTransaction(
-    txid: string
+    txid: string,
+    opts: IRPCCallOption = {}
   ): Promise<IGetTransactionResult | null> {
     const args = [add0xPrefix(txid)]
 
-    return this.rawCall("eth_getTransactionByHash", args)
+    return this.rawCall("eth_getTransactionByHash", args, opts)
   }
 
   public async getTransactionReceipt(
-    txid: string
+    txid: string,
+    opts: IRPCCallOption = {}
   ): Promise<IGetTransactionReceiptResult | null> {
-    const receipt = await this.rawCall("eth_getTransactionReceipt", [add0xPrefix(txid)])
+    const receipt = await this.rawCall(
+      "eth_getTransactionReceipt",
+      [add0xPrefix(txid)],
+      opts
+    )
     if (receipt == null) {
       return null
     }
@@ -303,7 +695,7 @@ export class EthRPC extends RPCRaw {
     if (from == null && to == null) {
       // eth_getTransactionReceipt on testrpc (and some other clients?) will not
       // return `from` and `to`
-      const tx = (await this.getTransaction(txid))!
+      const tx = (await this.getTransaction(txid, opts))!
       from = tx.from
       to = tx.to
     }
@@ -315,72 +707,340 @@ export class EthRPC extends RPCRaw {
     }
   }
 
-  public async getGasPrice(): Promise<string> {
-    return this.rawCall("eth_gasPrice")
+  /**
+   * Like `getTransaction`, but with quantities decoded to numbers and big
+   * numbers.
+   */
+  public async getDecodedTransaction(
+    txid: string,
+    opts: IRPCCallOption = {}
+  ): Promise<IDecodedTransaction | null> {
+    const tx = await this.getTransaction(txid, opts)
+    return tx && decodeTransaction(tx)
+  }
+
+  /**
+   * Like `getTransactionReceipt`, but with quantities decoded to numbers and
+   * big numbers, and `status` decoded to a `TRANSACTION_STATUS`.
+   */
+  public async getDecodedTransactionReceipt(
+    txid: string,
+    opts: IRPCCallOption = {}
+  ): Promise<IDecodedTransactionReceipt | null> {
+    const receipt = await this.getTransactionReceipt(txid, opts)
+    return receipt && decodeTransactionReceipt(receipt)
+  }
+
+  /**
+   * Get multiple transactions in a single batch request.
+   *
+   * @param txids transaction ids
+   * @returns transactions in the same order as `txids`, null for unknown
+   * transactions.
+   */
+  public async getTransactions(
+    txids: string[],
+    opts: IRPCCallOption = {}
+  ): Promise<Array<IGetTransactionResult | null>> {
+    const results = await this.rawBatch(
+      txids.map((txid) => ({
+        method: "eth_getTransactionByHash",
+        params: [add0xPrefix(txid)]
+      })),
+      opts
+    )
+
+    return unwrapBatchResults(results)
+  }
+
+  /**
+   * Get multiple transaction receipts in a single batch request. Transactions
+   * needed to fill in missing `from` and `to` are fetched in a second batch.
+   *
+   * @param txids transaction ids
+   * @returns receipts in the same order as `txids`, null for receipts not yet
+   * available.
+   */
+  public async getTransactionReceipts(
+    txids: string[],
+    opts: IRPCCallOption = {}
+  ): Promise<Array<IGetTransactionReceiptResult | null>> {
+    const results = await this.rawBatch(
+      txids.map((txid) => ({
+        method: "eth_getTransactionReceipt",
+        params: [add0xPrefix(txid)]
+      })),
+      opts
+    )
+
+    const receipts = unwrapBatchResults(results)
+
+    const incompleteTxids = receipts
+      .filter(
+        (receipt) =>
+          receipt != null && receipt.from == null && receipt.to == null
+      )
+      .map((receipt) => receipt.transactionHash)
+
+    if (incompleteTxids.length === 0) {
+      return receipts
+    }
+
+    const txs = await this.getTransactions(incompleteTxids, opts)
+    const txByHash: { [hash: string]: IGetTransactionResult } = {}
+    for (const tx of txs) {
+      if (tx != null) {
+        txByHash[tx.hash] = tx
+      }
+    }
+
+    return receipts.map((receipt) => {
+      if (receipt == null) {
+        return null
+      }
+
+      const tx = txByHash[receipt.transactionHash]
+      if (tx == null) {
+        return receipt
+      }
+
+      return {
+        ...receipt,
+        from: tx.from,
+        to: tx.to
+      }
+    })
+  }
+
+  /**
+   * Get a block by number, hash, or tag.
+   *
+   * @param block block number, block hash, or "latest", "earliest" or
+   * "pending"
+   * @param includeTransactions return full transactions instead of their
+   * hashes
+   * @returns the block, or null if there is no such block.
+   */
+  public async getBlock(
+    block: typeBlockTags,
+    includeTransactions?: false,
+    opts?: IRPCCallOption
+  ): Promise<IBlock | null>
+  public async getBlock(
+    block: typeBlockTags,
+    includeTransactions: true,
+    opts?: IRPCCallOption
+  ): Promise<IBlock<IGetTransactionResult> | null>
+  public async getBlock(
+    block: typeBlockTags,
+    includeTransactions: boolean = false,
+    opts: IRPCCallOption = {}
+  ): Promise<IBlock<string | IGetTransactionResult> | null> {
+    if (typeof block === "string" && isBlockHash(block)) {
+      return this.rawCall(
+        "eth_getBlockByHash",
+        [block, includeTransactions],
+        opts
+      )
+    }
+
+    return this.rawCall(
+      "eth_getBlockByNumber",
+      [toNonNumberBlock(block), includeTransactions],
+      opts
+    )
+  }
+
+  /**
+   * Like `getBlock`, but with quantities decoded to numbers and big numbers.
+   */
+  public async getDecodedBlock(
+    block: typeBlockTags,
+    includeTransactions?: false,
+    opts?: IRPCCallOption
+  ): Promise<IDecodedBlock | null>
+  public async getDecodedBlock(
+    block: typeBlockTags,
+    includeTransactions: true,
+    opts?: IRPCCallOption
+  ): Promise<IDecodedBlock<IDecodedTransaction> | null>
+  public async getDecodedBlock(
+    block: typeBlockTags,
+    includeTransactions: boolean = false,
+    opts: IRPCCallOption = {}
+  ): Promise<IDecodedBlock<string | IDecodedTransaction> | null> {
+    if (includeTransactions) {
+      const fullBlock = await this.getBlock(block, true, opts)
+      return fullBlock && decodeBlock(fullBlock)
+    }
+
+    const result = await this.getBlock(block, false, opts)
+    return result && decodeBlock(result)
+  }
+
+  public async getGasPrice(opts: IRPCCallOption = {}): Promise<string> {
+    return this.rawCall("eth_gasPrice", [], opts)
   }
 
-  public async getBlockNumber(): Promise<number> {
-    const blockNumber = await this.rawCall("eth_blockNumber")
+  /**
+   * Suggested priority fee per gas for EIP-1559 transactions.
+   */
+  public async getMaxPriorityFeePerGas(
+    opts: IRPCCallOption = {}
+  ): Promise<string> {
+    return this.rawCall("eth_maxPriorityFeePerGas", [], opts)
+  }
+
+  /**
+   * Get base fees and priority fees of a range of blocks.
+   *
+   * @param blockCount number of blocks in the range
+   * @param newestBlock highest block of the range
+   * @param rewardPercentiles percentiles of priority fees to return, for each
+   * block
+   */
+  public async getFeeHistory(
+    blockCount: number,
+    newestBlock: typeBlockTags = "latest",
+    rewardPercentiles: number[] = [],
+    opts: IRPCCallOption = {}
+  ): Promise<IFeeHistory> {
+    return this.rawCall(
+      "eth_feeHistory",
+      [
+        hexStripZeros(hexlify(blockCount)),
+        toNonNumberBlock(newestBlock),
+        rewardPercentiles
+      ],
+      opts
+    )
+  }
+
+  public async getBlockNumber(opts: IRPCCallOption = {}): Promise<number> {
+    const blockNumber = await this.rawCall("eth_blockNumber", [], opts)
     return Number(blockNumber)
   }
 
-  public async getAccounts(): Promise<string[]> {
-    return this.rawCall("eth_accounts")
+  public async getAccounts(opts: IRPCCallOption = {}): Promise<string[]> {
+    return this.rawCall("eth_accounts", [], opts)
   }
 
-  public async getNetId(): Promise<string> {
-    return this.rawCall("net_version")
+  public async getNetId(opts: IRPCCallOption = {}): Promise<string> {
+    return this.rawCall("net_version", [], opts)
   }
 
   public async getTransactionCount(
     address: string,
-    block: typeBlockTags = "latest"
+    block: typeBlockTags = "latest",
+    opts: IRPCCallOption = {}
   ): Promise<number> {
-    const count = await this.rawCall("eth_getTransactionCount", [
-      add0xPrefix(address),
-      toNonNumberBlock(block)
-    ])
+    const count = await this.rawCall(
+      "eth_getTransactionCount",
+      [add0xPrefix(address), toNonNumberBlock(block)],
+      opts
+    )
     return Number(count)
   }
 
   public async getBalance(
     address: string,
-    block: typeBlockTags = "latest"
+    block: typeBlockTags = "latest",
+    opts: IRPCCallOption = {}
+  ): Promise<string> {
+    return await this.rawCall(
+      "eth_getBalance",
+      [add0xPrefix(address), toNonNumberBlock(block)],
+      opts
+    )
+  }
+
+  /**
+   * Get the code deployed at an address. Returns "0x" if there is none.
+   */
+  public async getCode(
+    address: string,
+    block: typeBlockTags = "latest",
+    opts: IRPCCallOption = {}
   ): Promise<string> {
-    return await this.rawCall("eth_getBalance", [
-      add0xPrefix(address),
-      toNonNumberBlock(block)
-    ])
+    return this.rawCall(
+      "eth_getCode",
+      [add0xPrefix(address), toNonNumberBlock(block)],
+      opts
+    )
+  }
+
+  /**
+   * Get the value of a storage slot of an address, as a 32 bytes hex string.
+   *
+   * @param position index of the storage slot
+   */
+  public async getStorageAt(
+    address: string,
+    position: number | string,
+    block: typeBlockTags = "latest",
+    opts: IRPCCallOption = {}
+  ): Promise<string> {
+    return this.rawCall(
+      "eth_getStorageAt",
+      [
+        add0xPrefix(address),
+        hexStripZeros(hexlify(position)),
+        toNonNumberBlock(block)
+      ],
+      opts
+    )
+  }
+
+  /**
+   * Get the EIP-155 chain id used to sign transactions.
+   */
+  public async getChainId(opts: IRPCCallOption = {}): Promise<number> {
+    const chainId = await this.rawCall("eth_chainId", [], opts)
+    return Number(chainId)
+  }
+
+  /**
+   * Get the Merkle proof of an account, and of some of its storage slots.
+   *
+   * @param storageKeys storage slots to prove, as 32 bytes hex strings
+   */
+  public async getProof(
+    address: string,
+    storageKeys: string[] = [],
+    block: typeBlockTags = "latest",
+    opts: IRPCCallOption = {}
+  ): Promise<IAccountProof> {
+    return this.rawCall(
+      "eth_getProof",
+      [
+        add0xPrefix(address),
+        storageKeys.map((key) => add0xPrefix(key)),
+        toNonNumberBlock(block)
+      ],
+      opts
+    )
   }
 
-  public getLogs(req: IGetLogsRequest = {}): IPromiseCancel<ILogEntry[]> {
+  public getLogs(
+    req: IGetLogsRequest = {},
+    opts: IRPCCallOption = {}
+  ): IPromiseCancel<ILogEntry[]> {
     const cancelTokenSource = this.cancelTokenSource()
+    if (opts.cancelToken) {
+      opts.cancelToken.promise.then((cancel) =>
+        cancelTokenSource.cancel(cancel.message)
+      )
+    }
 
     const fromBlock = toNonNumberBlock(req.fromBlock)
     const toBlock = toNonNumberBlock(req.toBlock)
-    let address = req.address
-    if (typeof address === "string") {
-      address = add0xPrefix(address)
-    } else if (Array.isArray(address)) {
-      address = address.map((addr) => add0xPrefix(addr))
-    }
-
-    let topics = req.topics
-    if (Array.isArray(topics)) {
-      topics = topics.map((topic) => {
-        if (typeof topic === "string") {
-          return add0xPrefix(topic)
-        }
-
-        return topic
-      })
-    }
 
     const result = this.rawCall(
       "eth_getLogs",
-      [{ fromBlock, toBlock, address, topics }],
+      [{ fromBlock, toBlock, ...encodeLogFilter(req) }],
       {
-        cancelToken: cancelTokenSource.token
+        cancelToken: cancelTokenSource.token,
+        timeout: opts.timeout
       }
     ) as IPromiseCancel<any>
 
@@ -389,18 +1049,268 @@ export class EthRPC extends RPCRaw {
     })
   }
 
+  /**
+   * Install a filter for logs on the node. Poll it with `getFilterChanges`.
+   *
+   * @returns the filter id
+   */
+  public async newFilter(
+    req: IGetLogsRequest = {},
+    opts: IRPCCallOption = {}
+  ): Promise<string> {
+    const fromBlock = toNonNumberBlock(req.fromBlock)
+    const toBlock = toNonNumberBlock(req.toBlock)
+
+    return this.rawCall(
+      "eth_newFilter",
+      [{ fromBlock, toBlock, ...encodeLogFilter(req) }],
+      opts
+    )
+  }
+
+  /**
+   * Install a filter for new blocks on the node. `getFilterChanges` returns the
+   * hashes of the blocks.
+   *
+   * @returns the filter id
+   */
+  public async newBlockFilter(opts: IRPCCallOption = {}): Promise<string> {
+    return this.rawCall("eth_newBlockFilter", [], opts)
+  }
+
+  /**
+   * Get the logs (or block hashes) of a filter since it was last polled.
+   * Throws FilterNotFoundError if the node forgot the filter.
+   */
+  public async getFilterChanges(
+    filterID: string,
+    opts: IRPCCallOption = {}
+  ): Promise<ILogEntry[] | string[]> {
+    return this.filterCall("eth_getFilterChanges", filterID, opts)
+  }
+
+  /**
+   * Get all logs matching a log filter. Throws FilterNotFoundError if the node
+   * forgot the filter.
+   */
+  public async getFilterLogs(
+    filterID: string,
+    opts: IRPCCallOption = {}
+  ): Promise<ILogEntry[]> {
+    return this.filterCall("eth_getFilterLogs", filterID, opts)
+  }
+
+  /**
+   * Remove a filter from the node.
+   *
+   * @returns false if the node did not know the filter.
+   */
+  public async uninstallFilter(
+    filterID: string,
+    opts: IRPCCallOption = {}
+  ): Promise<boolean> {
+    return this.rawCall("eth_uninstallFilter", [filterID], opts)
+  }
+
+  /**
+   * Whether the transport supports subscriptions. Otherwise, new blocks and
+   * logs must be polled.
+   */
+  public get supportsSubscriptions(): boolean {
+    return typeof this.transport.subscribe === "function"
+  }
+
+  /**
+   * Subscribe to notifications pushed by the node. Throws if the transport
+   * doesn't support subscriptions (e.g. HTTP).
+   *
+   * @param params params of `eth_subscribe`
+   * @param onResubscribe called once the transport subscribed again after the
+   * connection was lost. Notifications of the time in between are missed.
+   */
+  public async subscribe(
+    params: any[],
+    listener: SubscriptionListener,
+    onResubscribe?: () => void
+  ): Promise<ISubscription> {
+    const { transport } = this
+    if (!transport.subscribe) {
+      throw new Error("The transport does not support subscriptions")
+    }
+
+    return transport.subscribe(params, listener, onResubscribe)
+  }
+
+  /**
+   * Subscribe to the headers of new blocks. Blocks have no transactions.
+   */
+  public async subscribeNewHeads(
+    fn: (block: IBlock) => void
+  ): Promise<ISubscription> {
+    return this.subscribe(["newHeads"], fn)
+  }
+
+  /**
+   * Subscribe to logs of new blocks. Logs of blocks removed by a chain
+   * reorganization are sent again, with `removed` set to `true`.
+   *
+   * @param req address and topics to filter logs by
+   * @param onResubscribe see `subscribe`
+   */
+  public async subscribeLogs(
+    req: IGetLogsRequest,
+    fn: (entry: ILogEntry) => void,
+    onResubscribe?: () => void
+  ): Promise<ISubscription> {
+    return this.subscribe(["logs", encodeLogFilter(req)], fn, onResubscribe)
+  }
+
+  /**
+   * Subscribe to hashes of transactions added to the node's pending pool.
+   */
+  public async subscribePendingTransactions(
+    fn: (txid: string) => void
+  ): Promise<ISubscription> {
+    return this.subscribe(["newPendingTransactions"], fn)
+  }
+
+  private async filterCall(
+    method: string,
+    filterID: string,
+    opts: IRPCCallOption
+  ): Promise<any> {
+    try {
+      return await this.rawCall(method, [filterID], opts)
+    } catch (err) {
+      if (err instanceof RPCError && /filter not found/i.test(err.message)) {
+        throw new FilterNotFoundError(filterID, err)
+      }
+
+      throw err
+    }
+  }
+
+  /**
+   * Send a transaction. `opts` carries only the cancel token of the deadline.
+   */
+  private async sendWithin(
+    req: ISendTransactionRequest,
+    opts: IRPCCallOption = {}
+  ): Promise<ISendTransactionResult> {
+    const { data } = req
+    const { blockNumber: _, ...encodedReq } = await this.encodeReq(
+      req,
+      true,
+      opts
+    )
+
+    const nonceManager = this._nonceManager
+    const from = encodedReq.from!
+    const managed = encodedReq.nonce == null && nonceManager != null
+    let nonce: number | undefined
+    if (managed) {
+      nonce = await nonceManager!.reserve(from)
+      encodedReq.nonce = hexStripZeros(hexlify(nonce))
+    }
+
+    const tx = { data, ...encodedReq }
+
+    // set once the transaction is sent, and may have reached the node
+    let sent = false
+    let txid: string
+    try {
+      if (this._signer) {
+        const rawTx = await this.signRequest(this._signer, tx, opts)
+        sent = true
+        txid = await this.rawCall("eth_sendRawTransaction", [rawTx], opts)
+      } else {
+        sent = true
+        txid = await this.rawCall("eth_sendTransaction", [tx], opts)
+      }
+    } catch (err) {
+      if (managed) {
+        if (isNonceError(err)) {
+          // the nonce is used already, e.g. by a transaction sent by others
+          nonceManager!.resync(from)
+          nonceManager!.release(from)
+        } else {
+          // if the send failed otherwise (e.g. it timed out), the transaction
+          // may have reached the node, and its nonce is not reused
+          const unused = !sent || isRejected(err)
+          nonceManager!.release(from, unused ? nonce : undefined)
+        }
+      }
+
+      throw err
+    }
+
+    if (managed) {
+      nonceManager!.release(from)
+    }
+
+    return {
+      txid
+    }
+  }
+
+  /**
+   * Sign a transaction with the signer, to send it with
+   * `eth_sendRawTransaction`.
+   */
+  private async signRequest(
+    signer: ISigner,
+    req: IEncodedRequest & { data: string },
+    opts: IRPCCallOption
+  ): Promise<string> {
+    const from = req.from || (await signer.getAddress())
+
+    const addresses = signer.getAddresses
+      ? await signer.getAddresses()
+      : [await signer.getAddress()]
+    if (!addresses.some((addr) => addr.toLowerCase() === from.toLowerCase())) {
+      throw new Error(`Signer cannot sign transactions from: ${from}`)
+    }
+
+    let nonce = req.nonce
+    if (nonce == null) {
+      const count = await this.getTransactionCount(from, "pending", opts)
+      nonce = hexStripZeros(hexlify(count))
+    }
+
+    if (this._chainID == null) {
+      this._chainID = await this.getChainId(opts)
+    }
+
+    const { blockNumber: _blockNumber, ...tx } = req
+    return signer.signTransaction({
+      ...tx,
+      from,
+      nonce,
+      chainId: this._chainID
+    })
+  }
+
+  private async getPendingTransaction(
+    txid: string,
+    opts: IRPCCallOption
+  ): Promise<IGetTransactionResult> {
+    const tx = await this.getTransaction(txid, opts)
+    if (tx == null) {
+      throw new TransactionNotFoundError(txid)
+    }
+
+    if (tx.blockNumber != null) {
+      throw new Error(`Transaction already mined: ${txid}`)
+    }
+
+    return tx
+  }
+
   private async encodeReq(
     req: ICallRequest | ISendTransactionRequest,
-    isSend = true
-  ): Promise<{
-    to: string
-    gas: string
-    gasPrice: string
-    from?: string
-    value?: string
-    nonce?: string
-    blockNumber?: string
-  }> {
+    isSend = true,
+    opts: IRPCCallOption = {}
+  ): Promise<IEncodedRequest> {
     const {
       to,
       gasLimit,
@@ -412,20 +1322,32 @@ export class EthRPC extends RPCRaw {
     if (from != null) {
       from = add0xPrefix(from)
     } else if (isSend) {
-      from = await this.getSender()
+      from = await this.getSender(opts)
     }
 
     if (isSend && !from) {
       throw new Error("cannot get eth sender")
     }
 
-    let gasPrice = req.gasPrice
-    if (gasPrice == null) {
-      gasPrice = await this.getGasPrice()
+    const fees = await this.encodeFees(req, isSend, opts)
+
+    let gas = hexStripZeros(hexlify(gasLimit || DEFAULT_GAS_LIMIT))
+    if (isSend && gasLimit == null && this._autoGasLimit) {
+      const { multiplier = DEFAULT_GAS_LIMIT_MULTIPLIER } = this._autoGasLimit
+
+      const estimate = await this.estimateGas(
+        {
+          to,
+          data: req.data,
+          from,
+          gasPrice: fees.gasPrice,
+          value: configValue
+        },
+        opts
+      )
+      gas = hexStripZeros(hexlify(Math.ceil(estimate * multiplier)))
     }
-    gasPrice = hexStripZeros(hexlify(gasPrice))
 
-    const gas = hexStripZeros(hexlify(gasLimit || DEFAULT_GAS_LIMIT))
     const nonce =
       configNonce == null ? undefined : hexStripZeros(hexlify(configNonce))
     const value =
@@ -436,11 +1358,210 @@ export class EthRPC extends RPCRaw {
     return {
       to: add0xPrefix(to),
       gas,
-      gasPrice,
+      ...fees,
       from,
       value,
       nonce,
       blockNumber
     }
   }
+
+  /**
+   * Encode the fees of a transaction. Legacy `gasPrice` is used if it is
+   * given, and EIP-1559 fees if they are given. Otherwise sends use EIP-1559
+   * fees if the latest block has a base fee.
+   */
+  private async encodeFees(
+    req: ICallRequest | ISendTransactionRequest,
+    isSend: boolean,
+    opts: IRPCCallOption
+  ): Promise<IEncodedFees> {
+    const {
+      gasPrice,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      type
+    } = req as ISendTransactionRequest
+    const txType = type == null ? undefined : Number(type)
+
+    // EIP-2930 transactions (type 1) would need an access list
+    if (txType != null && txType !== 0 && txType !== 2) {
+      throw new Error(`Unsupported transaction type: ${type}`)
+    }
+
+    const isLegacy = gasPrice != null || txType === 0
+    const is1559 =
+      maxFeePerGas != null || maxPriorityFeePerGas != null || txType === 2
+
+    // calls don't need fees. Fetching a gas price would cost a round-trip, and
+    // would keep calls at a block number from being cached.
+    if (!isSend && !isLegacy && !is1559) {
+      return {}
+    }
+
+    let baseFeePerGas: string | undefined
+    if (!isLegacy && maxFeePerGas == null && (isSend || is1559)) {
+      const latest = await this.getBlock("latest", false, opts)
+      baseFeePerGas = latest ? latest.baseFeePerGas : undefined
+    }
+
+    if (isLegacy || (!is1559 && baseFeePerGas == null)) {
+      return {
+        gasPrice: hexStripZeros(
+          hexlify(gasPrice != null ? gasPrice : await this.getGasPrice(opts))
+        ),
+        type: txType == null ? undefined : hexStripZeros(hexlify(txType))
+      }
+    }
+
+    let priorityFee: number
+    if (maxPriorityFeePerGas != null) {
+      priorityFee = Number(hexlify(maxPriorityFeePerGas))
+    } else {
+      try {
+        priorityFee = Number(await this.getMaxPriorityFeePerGas(opts))
+      } catch (err) {
+        if (!(err instanceof UnknownMethodError)) {
+          throw err
+        }
+
+        priorityFee = DEFAULT_MAX_PRIORITY_FEE_PER_GAS
+      }
+    }
+
+    // leave room for the base fee to double, as it may rise by 12.5% per block
+    const maxFee =
+      maxFeePerGas != null
+        ? Number(hexlify(maxFeePerGas))
+        : Number(baseFeePerGas || 0) * 2 + priorityFee
+
+    return {
+      maxFeePerGas: hexStripZeros(hexlify(maxFee)),
+      maxPriorityFeePerGas: hexStripZeros(hexlify(priorityFee)),
+      type: "0x2"
+    }
+  }
+}
+
+/**
+ * Return the results of a batch, or throw the first entry error.
+ */
+function unwrapBatchResults(results: IRPCBatchResult[]): any[] {
+  return results.map(({ result, error }) => {
+    if (error) {
+      throw error
+    }
+
+    return result
+  })
+}
+
+/**
+ * Encode the address and topics of a logs filter.
+ */
+function encodeLogFilter(
+  req: IGetLogsRequest
+): { address?: string | string[]; topics?: Array<string | null> } {
+  let address = req.address
+  if (typeof address === "string") {
+    address = add0xPrefix(address)
+  } else if (Array.isArray(address)) {
+    address = address.map((addr) => add0xPrefix(addr))
+  }
+
+  let topics = req.topics
+  if (Array.isArray(topics)) {
+    topics = topics.map((topic) => {
+      if (typeof topic === "string") {
+        return add0xPrefix(topic)
+      }
+
+      return topic
+    })
+  }
+
+  return { address, topics }
+}
+
+/**
+ * Convert an error of a reverted call to a ContractRevertError, with the
+ * builtin `Error(string)` and `Panic(uint256)` reasons decoded. Other errors
+ * are returned as is.
+ */
+function revertError(err: any): any {
+  if (!(err instanceof RPCError) || err instanceof ContractRevertError) {
+    return err
+  }
+
+  const revertData = findRevertData(err.data)
+  if (revertData == null && !/revert/i.test(err.message)) {
+    return err
+  }
+
+  const reason = revertData ? builtinErrorDecoder.decode(revertData) : null
+  return new ContractRevertError(revertData, reason, err)
+}
+
+/**
+ * Whether the node refused a send without processing it, so that its nonce is
+ * still unused.
+ */
+function isRejected(err: any): boolean {
+  return (
+    (err instanceof RPCError && err.code != null) ||
+    err instanceof RateLimitedError ||
+    err instanceof AuthorizationDeniedError
+  )
+}
+
+/**
+ * Whether the node rejected a send because its nonce is used already.
+ */
+function isNonceError(err: any): boolean {
+  if (!(err instanceof RPCError)) {
+    return false
+  }
+
+  const message = err.message.toLowerCase()
+  return NONCE_ERRORS.some((nonceError) => message.includes(nonceError))
+}
+
+function isBlockHash(block: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(block)
+}
+
+/**
+ * Fees of a transaction that replaces `tx`.
+ */
+function replacementFees(
+  tx: IGetTransactionResult,
+  fees: IReplaceTransactionRequest
+): IReplaceTransactionRequest {
+  if (fees.gasPrice != null) {
+    return { gasPrice: fees.gasPrice }
+  }
+
+  if (tx.maxFeePerGas == null || tx.maxPriorityFeePerGas == null) {
+    return { gasPrice: bumpFee(tx.gasPrice) }
+  }
+
+  return {
+    maxFeePerGas:
+      fees.maxFeePerGas != null ? fees.maxFeePerGas : bumpFee(tx.maxFeePerGas),
+    maxPriorityFeePerGas:
+      fees.maxPriorityFeePerGas != null
+        ? fees.maxPriorityFeePerGas
+        : bumpFee(tx.maxPriorityFeePerGas)
+  }
+}
+
+/**
+ * Raise a fee by 10%, rounded up.
+ */
+function bumpFee(fee: string): string {
+  const bumped = hexToBN(fee)
+    .muln(11)
+    .addn(9)
+    .divn(10)
+  return `0x${bumped.toString(16)}`
 }
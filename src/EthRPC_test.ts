@@ -2,9 +2,17 @@ import "mocha"
 
 import { assert } from "chai"
 
-import { ethRpc, assertThrow } from "./test"
+import { ethRpc, assertThrow, describeWithTestNode } from "./test"
+import { Contract } from "./Contract"
+import { FilterNotFoundError, RPCTimeoutError } from "./errors"
+import { EthRPC, TRANSACTION_STATUS } from "./EthRPC"
+import { IETHABI } from "./ethjs-abi"
+import { sleep } from "./sleep"
+import { fooABI, fooAddress, useMockFoo } from "./test/mock"
 
-describe("EthRPC", () => {
+const { encodeSignature } = require("ethjs-abi") as IETHABI
+
+describeWithTestNode("EthRPC", () => {
   it("can make RPC call", async () => {
     const [blockNumber, gasPrice, accounts] = await Promise.all([
       ethRpc.rawCall("eth_blockNumber"),
@@ -30,4 +38,234 @@ describe("EthRPC", () => {
       return ethRpc.rawCall("eth_blockNumber", [1, 2])
     })
   })
+
+  describe("#rawBatch", () => {
+    it("can make a batch RPC call", async () => {
+      const [blockNumber, accounts] = await ethRpc.rawBatch([
+        { method: "eth_blockNumber" },
+        { method: "eth_accounts" }
+      ])
+
+      assert.isUndefined(blockNumber.error)
+      assert.isString(blockNumber.result)
+      assert.isArray(accounts.result)
+    })
+
+    it("returns the errors of failed entries without failing the batch", async () => {
+      const [unknown, blockNumber] = await ethRpc.rawBatch([
+        { method: "unknown-method" },
+        { method: "eth_blockNumber" }
+      ])
+
+      assert.instanceOf(unknown.error, Error)
+      assert.isString(blockNumber.result)
+    })
+  })
+})
+
+describe("EthRPC with MockEthNode", () => {
+  const [, setFoo] = fooABI
+  const address = fooAddress
+
+  const mock = useMockFoo()
+
+  it("times out sending as a whole, not each call it takes", async () => {
+    mock.rpc.use(async (rpcCall, next) => {
+      await sleep(30)
+      return next(rpcCall)
+    })
+
+    await assertThrow(
+      () =>
+        mock.rpc.sendTransaction({ to: address, data: "0x" }, { timeout: 50 }),
+      "send timed out",
+      (err) => {
+        assert.instanceOf(err, RPCTimeoutError)
+        assert.equal(err.method, "sendTransaction")
+      }
+    )
+    assert.notInclude(
+      mock.node.requests.map((req) => req.method),
+      "eth_sendTransaction"
+    )
+  })
+
+  it("returns blocks by number, hash or tag", async () => {
+    const tx = await mock.contract.send("setFoo", [1])
+    mock.node.mine(2)
+
+    const block = (await mock.rpc.getBlock(1, true))!
+    assert.equal(block.number, "0x1")
+    assert.equal(block.transactions[0].hash, tx.txid)
+
+    const byHash = (await mock.rpc.getBlock(block.hash!))!
+    assert.equal(byHash.number, "0x1")
+    assert.deepEqual(byHash.transactions, [tx.txid])
+
+    const latest = (await mock.rpc.getBlock("latest"))!
+    assert.equal(latest.number, "0x2")
+    assert.equal(latest.parentHash, block.hash)
+
+    assert.isNull(await mock.rpc.getBlock(10))
+  })
+
+  it("estimates gas of a contract method", async () => {
+    assert.equal(await mock.contract.estimateGas("setFoo", [1]), 0x5208)
+  })
+
+  it("sends with an estimated gas limit if enabled", async () => {
+    const autoGasRPC = new EthRPC(mock.node, undefined, {
+      autoGasLimit: { multiplier: 1.5 }
+    })
+    const autoGasContract = new Contract(autoGasRPC, { abi: fooABI, address })
+
+    const tx = await autoGasContract.send("setFoo", [1])
+    assert.equal(Number(tx.gas), Math.ceil(0x5208 * 1.5))
+
+    const txWithLimit = await autoGasContract.send("setFoo", [1], {
+      gasLimit: 100000
+    })
+    assert.equal(Number(txWithLimit.gas), 100000)
+  })
+
+  it("polls filters installed on the node", async () => {
+    const filterID = await mock.rpc.newBlockFilter()
+    mock.node.mine(2)
+
+    const hashes = await mock.rpc.getFilterChanges(filterID)
+    assert.lengthOf(hashes, 2)
+    assert.deepEqual(await mock.rpc.getFilterChanges(filterID), [])
+
+    assert.isTrue(await mock.rpc.uninstallFilter(filterID))
+
+    await assertThrow(
+      async () => mock.rpc.getFilterChanges(filterID),
+      "filter not found",
+      (err) => {
+        assert.instanceOf(err, FilterNotFoundError)
+        assert.equal(err.filterID, filterID)
+      }
+    )
+  })
+
+  it("decodes quantities of transactions, receipts and blocks", async () => {
+    mock.node.failMethod(encodeSignature(setFoo))
+
+    const { txid } = await mock.rpc.sendTransaction({
+      to: address,
+      data: encodeSignature(setFoo),
+      value: "0x3635c9adc5dea00000"
+    })
+    mock.node.mine()
+
+    const tx = (await mock.rpc.getDecodedTransaction(txid))!
+    assert.equal(tx.nonce, 0)
+    assert.equal(tx.blockNumber, 1)
+    assert.equal(tx.value.toString(), "1000000000000000000000")
+
+    const receipt = (await mock.rpc.getDecodedTransactionReceipt(txid))!
+    assert.equal(receipt.blockNumber, 1)
+    assert.equal(receipt.gasUsed, 0x5208)
+    assert.equal(receipt.status, TRANSACTION_STATUS.FAILED)
+    assert.equal(receipt.effectiveGasPrice!.toNumber(), 1)
+
+    const block = (await mock.rpc.getDecodedBlock(1, true))!
+    assert.equal(block.number, 1)
+    assert.equal(block.transactions[0].hash, txid)
+    assert.equal(block.transactions[0].transactionIndex, 0)
+  })
+
+  describe("fees", () => {
+    it("uses legacy gas price if blocks have no base fee", async () => {
+      const tx = await mock.contract.send("setFoo", [1])
+
+      assert.equal(tx.gasPrice, "0x1")
+      assert.isUndefined(tx.maxFeePerGas)
+    })
+
+    it("uses EIP-1559 fees if the latest block has a base fee", async () => {
+      mock.node.baseFeePerGas = "0x64"
+      mock.node.maxPriorityFeePerGas = "0x2"
+
+      const tx = await mock.contract.send("setFoo", [1])
+
+      assert.equal(tx.type, "0x2")
+      assert.equal(tx.maxPriorityFeePerGas, "0x2")
+      // twice the base fee, plus the priority fee
+      assert.equal(Number(tx.maxFeePerGas), 202)
+    })
+
+    it("uses the given gas price", async () => {
+      mock.node.baseFeePerGas = "0x64"
+
+      const tx = await mock.contract.send("setFoo", [1], { gasPrice: 7 })
+
+      assert.equal(tx.gasPrice, "0x7")
+      assert.isUndefined(tx.maxFeePerGas)
+    })
+
+    it("returns fee history", async () => {
+      mock.node.baseFeePerGas = "0x64"
+      mock.node.mine(3)
+
+      const history = await mock.rpc.getFeeHistory(2, "latest", [50])
+
+      assert.equal(history.oldestBlock, "0x2")
+      assert.deepEqual(history.baseFeePerGas, ["0x64", "0x64", "0x64"])
+      assert.deepEqual(history.reward, [["0x1"], ["0x1"]])
+    })
+  })
+
+  it("returns code, storage and chain id", async () => {
+    const slot = `0x${"0".repeat(62)}2a`
+
+    mock.node.setCode(address, "0x6080")
+    mock.node.setStorageAt(address, 1, slot)
+
+    assert.equal(await mock.rpc.getCode(address), "0x6080")
+    assert.equal(await mock.rpc.getCode(`0x${"0".repeat(38)}bb`), "0x")
+    assert.equal(await mock.rpc.getStorageAt(address, 1), slot)
+    assert.equal(await mock.rpc.getChainId(), 1337)
+  })
+
+  it("gets the proof of an account and its storage", async () => {
+    const slot = `0x${"0".repeat(62)}2a`
+    const key = `${"0".repeat(63)}1`
+
+    mock.node.setStorageAt(address, 1, slot)
+
+    const proof = await mock.rpc.getProof(address.slice(2), [key], 1)
+    assert.equal(proof.address, address)
+    assert.deepEqual(proof.storageProof, [
+      { key: `0x${key}`, value: slot, proof: [] }
+    ])
+
+    await mock.rpc.getProof(address)
+
+    const params = mock.node.requests
+      .filter((req) => req.method === "eth_getProof")
+      .map((req) => req.params)
+    assert.deepEqual(params, [
+      [address, [`0x${key}`], "0x1"],
+      [address, [], "latest"]
+    ])
+  })
+
+  describe("with subscriptions", () => {
+    useMockFoo({ subscriptions: true }, mock)
+
+    it("pushes new block headers and pending transactions", async () => {
+      const heads: string[] = []
+      const txids: string[] = []
+
+      await mock.rpc.subscribeNewHeads((block) => heads.push(block.number!))
+      await mock.rpc.subscribePendingTransactions((txid) => txids.push(txid))
+
+      const tx = await mock.contract.send("setFoo", [1])
+      mock.node.mine(2)
+
+      assert.deepEqual(heads, ["0x1", "0x2"])
+      assert.deepEqual(txids, [tx.txid])
+    })
+  })
 })
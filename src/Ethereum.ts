@@ -1,18 +1,26 @@
-import { EthRPC } from "./EthRPC"
+import { EthRPC, IEthRPCOptions } from "./EthRPC"
 import { IContractsRepoData, ContractsRepo } from "./ContractsRepo"
 import { Contract } from "./Contract"
+import { ITransport } from "./Transport"
 
 /**
  * The `Ethereum` class is an instance of the `qtumjs-eth` API.
  *
- * @param providerURL URL of the ethereum RPC service.
+ * @param provider URL of the ethereum RPC service, or a transport to it.
  * @param repoData Information about Solidity contracts.
+ * @param sender The default sender address.
+ * @param opts RPC client options.
  */
 export class Ethereum extends EthRPC {
   private repo: ContractsRepo
 
-  constructor(providerURL: string, repoData?: IContractsRepoData, sender?: string) {
-    super(providerURL, sender)
+  constructor(
+    provider: string | ITransport,
+    repoData?: IContractsRepoData,
+    sender?: string,
+    opts: IEthRPCOptions = {}
+  ) {
+    super(provider, sender, opts)
     this.repo = new ContractsRepo(this, {
       // massage the repoData by providing empty default properties
       contracts: {},
@@ -2,12 +2,12 @@ import "mocha"
 
 import { assert } from "chai"
 
-import { ethRpcURL, repoData } from "./test"
+import { ethTransport, repoData, describeWithTestNode } from "./test"
 import { Ethereum } from "./Ethereum"
 import { Contract } from "./Contract"
 
-describe("Ethereum", () => {
-  const eth = new Ethereum(ethRpcURL, repoData)
+describeWithTestNode("Ethereum", () => {
+  const eth = new Ethereum(ethTransport, repoData)
 
   it("can instantiate a contract", () => {
     const contract = eth.contract("Methods")
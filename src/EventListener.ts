@@ -2,7 +2,14 @@ import { EventEmitter } from "eventemitter3"
 
 import { ContractLogDecoder } from "./abi"
 import { IContractEventLog } from "./Contract"
-import { EthRPC, IGetLogsRequest, IPromiseCancel } from "./EthRPC"
+import {
+  EthRPC,
+  IGetLogsRequest,
+  ILogEntry,
+  IPromiseCancel
+} from "./EthRPC"
+import { FilterNotFoundError } from "./errors"
+import { retryDelay } from "./retry"
 import { sleep } from "./sleep"
 
 export type ICancelFunction = () => void
@@ -11,8 +18,44 @@ export interface ICancellableEventEmitter extends EventEmitter {
   cancel: ICancelFunction
 }
 
+/**
+ * How new logs are received:
+ *
+ * - "subscription": the node pushes new logs (`eth_subscribe`). Requires a
+ *   transport that supports subscriptions, e.g. WebSocket.
+ * - "filter": poll a filter installed on the node (`eth_getFilterChanges`).
+ * - "getLogs": poll new blocks for logs (`eth_getLogs`).
+ */
+export type LogStrategy = "subscription" | "filter" | "getLogs"
+
+/**
+ * Options for subscribing to event logs.
+ */
+export interface IOnLogOptions extends IGetLogsRequest {
+  /**
+   * Interval in ms between polls for new logs. (default = 7500)
+   */
+  pollInterval?: number
+
+  /**
+   * How new logs are received. (default = "subscription" if the transport
+   * supports it, "getLogs" otherwise)
+   */
+  strategy?: LogStrategy
+
+  /**
+   * Called when polling for new logs fails. Polling goes on, with backoff
+   * until it succeeds again. Also called if subscribing fails, and logs are
+   * polled instead, or if fetching logs missed by a subscription fails.
+   */
+  onError?: (err: Error) => void
+}
+
 const ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME = 7500
 
+// maximum delay in ms before polling again after failures
+const MAX_POLL_BACKOFF = 60000
+
 export class EventListener {
   // TODO filter out unparseable logs
 
@@ -43,11 +86,295 @@ export class EventListener {
 
   /**
    * Subscribe to contract's events, using callback interface.
+   *
+   * New logs are pushed by the node if the transport supports subscriptions
+   * (e.g. WebSocket), and polled otherwise. See `LogStrategy`. Logs from
+   * `fromBlock` to a `toBlock` number are always polled.
    */
   public onLog(
     fn: (entry: IContractEventLog) => void,
-    opts: IGetLogsRequest = {}
+    opts: IOnLogOptions = {}
+  ): ICancelFunction {
+    const { supportsSubscriptions } = this.rpc
+    const {
+      strategy = supportsSubscriptions ? "subscription" : "getLogs"
+    } = opts
+
+    if (strategy === "filter") {
+      return this.pollFilter(fn, opts)
+    }
+
+    if (
+      strategy === "getLogs" ||
+      !supportsSubscriptions ||
+      typeof opts.toBlock === "number"
+    ) {
+      return this.pollLogs(fn, opts)
+    }
+
+    let canceled = false
+    let cancel: ICancelFunction | undefined
+
+    const start = async () => {
+      try {
+        cancel = await this.subscribeLogs(fn, opts)
+      } catch (err) {
+        // the node may not support subscriptions after all
+        if (opts.onError) {
+          opts.onError(err)
+        }
+
+        cancel = this.pollLogs(fn, opts)
+      }
+
+      if (canceled) {
+        cancel()
+      }
+    }
+
+    start()
+
+    return () => {
+      canceled = true
+      if (cancel) {
+        cancel()
+      }
+    }
+  }
+
+  /**
+   * Subscribe to contract's events, use EventsEmitter interface.
+   */
+  public emitter(opts: IOnLogOptions = {}): ICancellableEventEmitter {
+    const emitter = new EventEmitter()
+
+    const cancel = this.onLog((entry) => {
+      const key = (entry.event && entry.event._eventName) || "?"
+      emitter.emit(key, entry)
+    }, opts)
+
+    return Object.assign(emitter, {
+      cancel
+    })
+  }
+
+  private decode(entry: ILogEntry): IContractEventLog {
+    return {
+      ...entry,
+      event: this.logDecoder.decode(entry)
+    }
+  }
+
+  /**
+   * Receive new logs with a subscription. If `fromBlock` is a block number,
+   * past logs are fetched first, and new logs are held back until then. Logs
+   * missed while the connection was lost are fetched once the transport
+   * subscribes again.
+   */
+  private async subscribeLogs(
+    fn: (entry: IContractEventLog) => void,
+    opts: IOnLogOptions
+  ): Promise<ICancelFunction> {
+    const {
+      pollInterval: _pollInterval,
+      strategy: _strategy,
+      onError,
+      fromBlock,
+      toBlock: _toBlock,
+      ...filter
+    } = opts
+
+    let canceled = false
+    const cursor: ILogCursor = { lastBlockKeys: new Set() }
+
+    const receive = (entry: ILogEntry) => {
+      if (!canceled && receiveLog(cursor, entry)) {
+        fn(this.decode(entry))
+      }
+    }
+
+    let heldBack: ILogEntry[] | null = typeof fromBlock === "number" ? [] : null
+
+    // fetch the logs from the last block received, then the logs held back
+    const fetchPast = async () => {
+      try {
+        const pastLogs = await this.rpc.getLogs({
+          ...filter,
+          fromBlock: cursor.lastBlock,
+          toBlock: "latest"
+        })
+
+        for (const entry of pastLogs) {
+          receive(entry)
+        }
+      } finally {
+        const pushed = heldBack || []
+        heldBack = null
+
+        for (const entry of pushed) {
+          receive(entry)
+        }
+      }
+    }
+
+    const subscription = await this.rpc.subscribeLogs(
+      filter,
+      (entry) => {
+        if (heldBack) {
+          heldBack.push(entry)
+        } else {
+          receive(entry)
+        }
+      },
+      () => {
+        if (cursor.lastBlock == null) {
+          return
+        }
+
+        heldBack = heldBack || []
+        fetchPast().catch((err) => {
+          if (onError) {
+            onError(err)
+          }
+        })
+      }
+    )
+
+    const cancel = () => {
+      canceled = true
+      subscription.unsubscribe().catch(() => undefined)
+    }
+
+    try {
+      if (typeof fromBlock === "number") {
+        cursor.lastBlock = fromBlock
+        await fetchPast()
+      } else {
+        // the block to fetch missed logs from, until a log is received
+        const blockNumber = await this.rpc.getBlockNumber()
+        if (cursor.lastBlock == null) {
+          cursor.lastBlock = blockNumber
+        }
+      }
+    } catch (err) {
+      cancel()
+      throw err
+    }
+
+    return cancel
+  }
+
+  /**
+   * Poll a log filter installed on the node. If the node forgets the filter,
+   * it is installed again, and logs since the last poll are fetched.
+   */
+  private pollFilter(
+    fn: (entry: IContractEventLog) => void,
+    opts: IOnLogOptions
   ): ICancelFunction {
+    const {
+      pollInterval = ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME,
+      strategy: _strategy,
+      onError,
+      fromBlock,
+      ...filter
+    } = opts
+
+    const { rpc } = this
+    let canceled = false
+
+    // a re-installed filter fetches logs from the last block received again
+    const cursor: ILogCursor = { lastBlockKeys: new Set() }
+
+    const receive = (entries: ILogEntry[]) => {
+      for (const entry of entries) {
+        if (receiveLog(cursor, entry)) {
+          fn(this.decode(entry))
+        }
+      }
+    }
+
+    const install = async (): Promise<string> => {
+      if (cursor.lastBlock == null) {
+        if (typeof fromBlock !== "number") {
+          cursor.lastBlock = await rpc.getBlockNumber()
+          return rpc.newFilter({ ...filter, fromBlock: "latest" })
+        }
+
+        cursor.lastBlock = fromBlock
+      }
+
+      const id = await rpc.newFilter({
+        ...filter,
+        fromBlock: cursor.lastBlock
+      })
+      receive(await rpc.getFilterLogs(id))
+      return id
+    }
+
+    // poll the filter, and install it (again) if the node doesn't know it
+    const poll = async (id?: string): Promise<string> => {
+      if (id == null) {
+        return install()
+      }
+
+      try {
+        receive((await rpc.getFilterChanges(id)) as ILogEntry[])
+        return id
+      } catch (err) {
+        if (!(err instanceof FilterNotFoundError)) {
+          throw err
+        }
+
+        return install()
+      }
+    }
+
+    const loop = async () => {
+      let filterID: string | undefined
+      let failures = 0
+
+      while (!canceled) {
+        try {
+          filterID = await poll(filterID)
+          failures = 0
+        } catch (err) {
+          if (canceled) {
+            break
+          }
+
+          failures++
+          if (onError) {
+            onError(err)
+          }
+        }
+
+        await sleep(pollDelay(pollInterval, failures))
+      }
+
+      if (filterID != null) {
+        await rpc.uninstallFilter(filterID).catch(() => undefined)
+      }
+    }
+
+    loop()
+
+    return () => {
+      canceled = true
+    }
+  }
+
+  private pollLogs(
+    fn: (entry: IContractEventLog) => void,
+    opts: IOnLogOptions
+  ): ICancelFunction {
+    const {
+      pollInterval = ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME,
+      strategy: _strategy,
+      onError,
+      ...logsRequest
+    } = opts
+
     let fromBlock = opts.fromBlock || "latest"
     let toBlock = opts.toBlock || "latest"
 
@@ -59,42 +386,62 @@ export class EventListener {
     const fetchToLatest = typeof fromBlock !== "number"
 
     const asyncLoop = async () => {
+      let failures = 0
+
       while (!canceled) {
-        latestBlockNum = await rpc.getBlockNumber()
+        try {
+          await poll()
+          failures = 0
+        } catch (err) {
+          if (canceled) {
+            break
+          }
 
-        if (typeof fromBlock !== "number") {
-          fromBlock = latestBlockNum
-        }
+          failures++
+          if (onError) {
+            onError(err)
+          }
 
-        if (fetchToLatest) {
-          toBlock = latestBlockNum
+          await sleep(pollDelay(pollInterval, failures))
         }
+      }
+    }
 
-        if (fromBlock > toBlock || (!isFirstFetch && fromBlock === toBlock)) {
-          await sleep(ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME)
-          continue
-        }
+    const poll = async () => {
+      latestBlockNum = await rpc.getBlockNumber()
 
-        if (isFirstFetch) {
-          isFirstFetch = false
-        }
+      if (typeof fromBlock !== "number") {
+        fromBlock = latestBlockNum
+      }
 
-        const logPromise = this.getLogs({
-          ...opts,
-          fromBlock,
-          toBlock
-        })
+      if (fetchToLatest) {
+        toBlock = latestBlockNum
+      }
+
+      if (fromBlock > toBlock || (!isFirstFetch && fromBlock === toBlock)) {
+        await sleep(pollInterval)
+        return
+      }
 
-        promiseCancel = logPromise.cancel
+      if (isFirstFetch) {
+        isFirstFetch = false
+      }
 
-        const result = await logPromise
+      const logPromise = this.getLogs({
+        ...logsRequest,
+        fromBlock,
+        toBlock
+      })
 
-        for (const entry of result) {
-          fn(entry)
-        }
+      promiseCancel = logPromise.cancel
 
-        fromBlock = latestBlockNum + 1
+      const result = await logPromise
+
+      for (const entry of result) {
+        fn(entry)
       }
+
+      fromBlock = latestBlockNum + 1
     }
 
     asyncLoop()
@@ -107,20 +454,74 @@ export class EventListener {
       }
     }
   }
+}
 
-  /**
-   * Subscribe to contract's events, use EventsEmitter interface.
-   */
-  public emitter(opts: IGetLogsRequest = {}): ICancellableEventEmitter {
-    const emitter = new EventEmitter()
+/**
+ * Delay in ms before polling again, with backoff after consecutive failures.
+ */
+function pollDelay(pollInterval: number, failures: number): number {
+  if (failures === 0) {
+    return pollInterval
+  }
 
-    const cancel = this.onLog((entry) => {
-      const key = (entry.event && entry.event._eventName) || "?"
-      emitter.emit(key, entry)
-    }, opts)
+  return retryDelay(failures, {
+    initialDelay: pollInterval,
+    maxDelay: Math.max(pollInterval, MAX_POLL_BACKOFF)
+  })
+}
 
-    return Object.assign(emitter, {
-      cancel
-    })
+/**
+ * The logs received up to the latest block.
+ */
+interface ILogCursor {
+  lastBlock?: number
+
+  // keys of the logs received in `lastBlock`
+  lastBlockKeys: Set<string>
+}
+
+/**
+ * Record a log in the cursor, and return false if it was received already,
+ * e.g. because logs were fetched again from the last block received. A
+ * removed log (of a reorg) moves the cursor back to its block, since the logs
+ * of the new blocks from there on are not received yet.
+ */
+function receiveLog(cursor: ILogCursor, entry: ILogEntry): boolean {
+  const blockNumber = Number(entry.blockNumber)
+  const key = logKey(entry)
+  const { lastBlock } = cursor
+
+  if (entry.removed) {
+    if (lastBlock != null && blockNumber <= lastBlock) {
+      cursor.lastBlock = blockNumber
+      cursor.lastBlockKeys = new Set()
+    }
+
+    return true
+  }
+
+  if (lastBlock != null) {
+    if (
+      blockNumber < lastBlock ||
+      (blockNumber === lastBlock && cursor.lastBlockKeys.has(key))
+    ) {
+      return false
+    }
   }
+
+  if (lastBlock == null || blockNumber > lastBlock) {
+    cursor.lastBlock = blockNumber
+    cursor.lastBlockKeys = new Set()
+  }
+
+  cursor.lastBlockKeys.add(key)
+  return true
+}
+
+/**
+ * Identifies a log. A log removed by a reorganization has the same key as the
+ * log it removes, but `removed` differs.
+ */
+function logKey(entry: ILogEntry): string {
+  return `${entry.blockHash}:${entry.logIndex}:${entry.removed}`
 }
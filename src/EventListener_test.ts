@@ -1,11 +1,18 @@
 import "mocha"
 import { assert } from "chai"
 
-import { repoData, ethRpc } from "./test"
+import { repoData, ethRpc, describeWithTestNode } from "./test"
+import { ContractLogDecoder } from "./abi"
 import { ContractsRepo } from "./ContractsRepo"
-import { IContractInfo } from "./Contract"
+import { IContractEventLog, IContractInfo } from "./Contract"
+import { IETHABI } from "./ethjs-abi"
+import { EventListener } from "./EventListener"
+import { sleep } from "./sleep"
+import { fooABI, fooAddress, useMockFoo } from "./test/mock"
 
-describe("EventListener", () => {
+const { encodeParams, eventSignature } = require("ethjs-abi") as IETHABI
+
+describeWithTestNode("EventListener", () => {
   const repo = new ContractsRepo(ethRpc, repoData)
 
   it("can decode events emitted by any known contract", async () => {
@@ -111,3 +118,269 @@ describe("EventListener", () => {
   })
   // TODO can listen for specific topic
 })
+
+describe("EventListener with MockEthNode", () => {
+  const [, , fooEvent] = fooABI
+  const address = fooAddress
+
+  const fooLog = (a: string) => ({
+    address,
+    topics: [eventSignature(fooEvent)],
+    data: encodeParams(["string"], [a])
+  })
+
+  const mock = useMockFoo()
+
+  it("receives logs emitted into mined blocks", (done) => {
+    mock.node.mine()
+
+    const listener = new EventListener(mock.rpc, new ContractLogDecoder(fooABI))
+
+    const cancel = listener.onLog(
+      (entry: IContractEventLog) => {
+        try {
+          assert.deepEqual(entry.event, {
+            0: "test!",
+            a: "test!",
+            _eventName: "FooEvent"
+          })
+          assert.equal(entry.blockNumber, "0x2")
+          cancel()
+          done()
+        } catch (err) {
+          done(err)
+        }
+      },
+      { pollInterval: 1 }
+    )
+
+    mock.node.emitLog({
+      address,
+      topics: [eventSignature(fooEvent)],
+      data: encodeParams(["string"], ["test!"])
+    })
+
+    // onLog fetches logs once a block after the log's block is mined
+    setTimeout(() => mock.node.mine(2), 5)
+  })
+
+  it("polls logs if subscriptions are not enabled", async () => {
+    assert.isFalse(mock.rpc.supportsSubscriptions)
+
+    const received: string[] = []
+    const cancel = mock.contract.onLog(
+      (entry) => {
+        received.push(entry.event!.a)
+      },
+      { pollInterval: 1 }
+    )
+
+    mock.node.emitLog(fooLog("a"))
+    mock.node.mine(2)
+    await sleep(10)
+
+    cancel()
+
+    assert.deepEqual(received, ["a"])
+
+    const methods = mock.node.requests.map((req) => req.method)
+    assert.include(methods, "eth_getLogs")
+    assert.notInclude(methods, "eth_subscribe")
+  })
+
+  describe("with filters", () => {
+    it("reports polling errors, and keeps polling", async () => {
+      const received: string[] = []
+      const errors: Error[] = []
+      const cancel = mock.contract.onLog(
+        (entry) => {
+          received.push(entry.event!.a)
+        },
+        {
+          fromBlock: 0,
+          strategy: "filter",
+          pollInterval: 1,
+          onError: (err) => errors.push(err)
+        }
+      )
+      await sleep(5)
+
+      const getFilterChanges = mock.node.handlers.eth_getFilterChanges
+      mock.node.handlers.eth_getFilterChanges = () => {
+        throw Object.assign(new Error("internal error"), { code: -32603 })
+      }
+      mock.node.emitLog(fooLog("a"))
+      mock.node.mine()
+      await sleep(10)
+
+      mock.node.handlers.eth_getFilterChanges = getFilterChanges
+      await sleep(50)
+
+      cancel()
+
+      assert.isAbove(errors.length, 0)
+      assert.match(errors[0].message, /internal error/)
+      assert.deepEqual(received, ["a"])
+    })
+
+    it("re-installs a filter the node forgot", async () => {
+      const received: string[] = []
+      const cancel = mock.contract.onLog(
+        (entry) => {
+          received.push(entry.event!.a)
+        },
+        { fromBlock: 0, strategy: "filter", pollInterval: 1 }
+      )
+
+      mock.node.emitLog(fooLog("a"))
+      mock.node.mine()
+      await sleep(10)
+
+      mock.node.forgetFilters()
+      mock.node.emitLog(fooLog("b"))
+      mock.node.mine()
+      await sleep(10)
+
+      cancel()
+
+      assert.deepEqual(received, ["a", "b"])
+
+      const newFilters = mock.node.requests.filter(
+        (req) => req.method === "eth_newFilter"
+      )
+      assert.lengthOf(newFilters, 2)
+    })
+
+    it("receives the logs of new blocks after a reorg", async () => {
+      const received: string[] = []
+      const cancel = mock.contract.onLog(
+        (entry) => {
+          received.push(`${entry.removed ? "-" : ""}${entry.event!.a}`)
+        },
+        { fromBlock: 0, strategy: "filter", pollInterval: 1 }
+      )
+
+      mock.node.emitLog(fooLog("a"))
+      mock.node.mine()
+      mock.node.emitLog(fooLog("b"))
+      mock.node.mine()
+      await sleep(10)
+
+      mock.node.reorg(2)
+      mock.node.emitLog(fooLog("c"))
+      mock.node.mine(2)
+      await sleep(10)
+
+      cancel()
+
+      assert.deepEqual(received, ["a", "b", "-a", "-b", "c"])
+    })
+  })
+
+  describe("with subscriptions", () => {
+    useMockFoo({ subscriptions: true }, mock)
+
+    it("supports subscriptions", () => {
+      assert.isTrue(mock.rpc.supportsSubscriptions)
+    })
+
+    it("receives logs pushed by the node", async () => {
+      const received: string[] = []
+      const cancel = mock.contract.onLog((entry) => {
+        received.push(entry.event!.a)
+      })
+
+      // wait for the subscription
+      await sleep(5)
+
+      mock.node.emitLog(fooLog("a"))
+      mock.node.emitLog({ ...fooLog("b"), address: "0xbb" })
+      mock.node.mine()
+
+      cancel()
+
+      mock.node.emitLog(fooLog("c"))
+      mock.node.mine()
+
+      assert.deepEqual(received, ["a"])
+      assert.notInclude(
+        mock.node.requests.map((req) => req.method),
+        "eth_getLogs"
+      )
+    })
+
+    it("fetches past logs before pushed logs", async () => {
+      mock.node.emitLog(fooLog("past"))
+      mock.node.mine()
+
+      const received: string[] = []
+      const cancel = mock.contract.onLog(
+        (entry) => {
+          received.push(entry.event!.a)
+        },
+        { fromBlock: 0 }
+      )
+
+      await sleep(5)
+
+      mock.node.emitLog(fooLog("new"))
+      mock.node.mine()
+
+      cancel()
+
+      assert.deepEqual(received, ["past", "new"])
+    })
+
+    it("fetches logs missed while the connection was lost", async () => {
+      const received: string[] = []
+      const cancel = mock.contract.onLog((entry) => {
+        received.push(entry.event!.a)
+      })
+
+      await sleep(5)
+
+      mock.node.emitLog(fooLog("a"))
+      mock.node.mine()
+
+      mock.node.disconnect()
+      mock.node.emitLog(fooLog("b"))
+      mock.node.mine()
+      mock.node.reconnect()
+
+      mock.node.emitLog(fooLog("c"))
+      mock.node.mine()
+      await sleep(5)
+
+      cancel()
+
+      assert.deepEqual(received, ["a", "b", "c"])
+    })
+
+    it("reports a failed subscribe, and polls logs instead", async () => {
+      mock.node.handlers.eth_subscribe = () => {
+        throw Object.assign(new Error("subscriptions disabled"), {
+          code: -32601
+        })
+      }
+
+      const received: string[] = []
+      const errors: Error[] = []
+      const cancel = mock.contract.onLog(
+        (entry) => {
+          received.push(entry.event!.a)
+        },
+        { fromBlock: 0, pollInterval: 1, onError: (err) => errors.push(err) }
+      )
+
+      mock.node.emitLog(fooLog("a"))
+      mock.node.mine()
+      await sleep(10)
+
+      cancel()
+
+      assert.deepEqual(received, ["a"])
+      assert.lengthOf(errors, 1)
+      assert.match(errors[0].message, /subscriptions disabled/)
+    })
+  })
+})
@@ -0,0 +1,282 @@
+import { RPCError } from "./errors"
+import { HTTPTransport } from "./HTTPTransport"
+import { SEND_METHODS } from "./retry"
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+import { ITransport, ITransportResponse } from "./Transport"
+
+export interface IFailoverTransportOptions {
+  /**
+   * Interval in ms between health checks of all endpoints. 0 disables
+   * periodic health checks. (default = 15000)
+   */
+  healthCheckInterval?: number
+
+  /**
+   * Number of endpoints that must agree on the result of a quorum read. 1
+   * disables quorum reads. (default = 1)
+   */
+  quorum?: number
+
+  /**
+   * Methods that are read by quorum.
+   */
+  quorumMethods?: string[]
+}
+
+const DEFAULT_HEALTH_CHECK_INTERVAL = 15000
+
+const DEFAULT_QUORUM_METHODS = [
+  "eth_blockNumber",
+  "eth_call",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+  "eth_getTransactionCount"
+]
+
+interface IEndpoint {
+  transport: ITransport
+  healthy: boolean
+}
+
+/**
+ * FailoverTransport spreads requests over several endpoints of the same
+ * network.
+ *
+ * Requests go to the first healthy endpoint, and fail over to the next one if
+ * an endpoint is unreachable or responds with a server error. Transactions are
+ * always sent to the same (sticky) endpoint while it is healthy, and are never
+ * sent twice.
+ */
+export class FailoverTransport implements ITransport {
+  private _endpoints: IEndpoint[]
+  private _sticky?: IEndpoint
+  private _quorum: number
+  private _quorumMethods: string[]
+  private _healthCheckTimer?: any
+  private _healthCheckNonce = 0
+
+  /**
+   * @param providers URLs of HTTP RPC services, or transports.
+   * @param opts failover options
+   */
+  constructor(
+    providers: Array<string | ITransport>,
+    opts: IFailoverTransportOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error("FailoverTransport requires at least one provider")
+    }
+
+    this._endpoints = providers.map((provider) => ({
+      transport:
+        typeof provider === "string" ? new HTTPTransport(provider) : provider,
+      healthy: true
+    }))
+
+    this._quorum = opts.quorum || 1
+    this._quorumMethods = opts.quorumMethods || DEFAULT_QUORUM_METHODS
+
+    const { healthCheckInterval = DEFAULT_HEALTH_CHECK_INTERVAL } = opts
+    if (healthCheckInterval > 0) {
+      this._healthCheckTimer = setInterval(
+        () => this.checkHealth(),
+        healthCheckInterval
+      )
+
+      // don't keep a node process alive just for health checks
+      if (this._healthCheckTimer.unref) {
+        this._healthCheckTimer.unref()
+      }
+    }
+  }
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    const rpcCalls = Array.isArray(payload) ? payload : [payload]
+
+    if (rpcCalls.some((rpcCall) => SEND_METHODS.includes(rpcCall.method))) {
+      return this.requestSticky(payload, opts)
+    }
+
+    if (
+      this._quorum > 1 &&
+      !Array.isArray(payload) &&
+      this._quorumMethods.includes(payload.method)
+    ) {
+      return this.requestQuorum(payload, opts)
+    }
+
+    return this.requestFailover(payload, opts)
+  }
+
+  /**
+   * Check whether endpoints respond to `eth_blockNumber`, and mark them as
+   * healthy or unhealthy.
+   */
+  public async checkHealth(): Promise<void> {
+    await Promise.all(
+      this._endpoints.map(async (endpoint) => {
+        try {
+          const res = await endpoint.transport.request({
+            id: `health-${this._healthCheckNonce++}`,
+            method: "eth_blockNumber",
+            params: []
+          })
+
+          endpoint.healthy = res.status === 200 && res.data.error == null
+        } catch (err) {
+          endpoint.healthy = false
+        }
+      })
+    )
+  }
+
+  /**
+   * Number of endpoints currently considered healthy.
+   */
+  public get healthyCount(): number {
+    return this._endpoints.filter((endpoint) => endpoint.healthy).length
+  }
+
+  public close() {
+    if (this._healthCheckTimer) {
+      clearInterval(this._healthCheckTimer)
+      this._healthCheckTimer = undefined
+    }
+
+    for (const { transport } of this._endpoints) {
+      if (transport.close) {
+        transport.close()
+      }
+    }
+  }
+
+  /**
+   * Healthy endpoints first, so that unhealthy endpoints are tried as a last
+   * resort.
+   */
+  private orderedEndpoints(): IEndpoint[] {
+    return [
+      ...this._endpoints.filter((endpoint) => endpoint.healthy),
+      ...this._endpoints.filter((endpoint) => !endpoint.healthy)
+    ]
+  }
+
+  private async requestFailover(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption
+  ): Promise<ITransportResponse> {
+    let lastError: any
+    let lastResponse: ITransportResponse | undefined
+
+    for (const endpoint of this.orderedEndpoints()) {
+      try {
+        const res = await endpoint.transport.request(payload, opts)
+        if (!isServerFailure(res)) {
+          endpoint.healthy = true
+          return res
+        }
+
+        lastResponse = res
+      } catch (err) {
+        if (opts.cancelToken && opts.cancelToken.reason) {
+          throw err
+        }
+
+        lastError = err
+      }
+
+      endpoint.healthy = false
+    }
+
+    if (lastResponse) {
+      return lastResponse
+    }
+
+    throw lastError
+  }
+
+  private async requestSticky(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption
+  ): Promise<ITransportResponse> {
+    if (this._sticky == null || !this._sticky.healthy) {
+      this._sticky = this.orderedEndpoints()[0]
+    }
+
+    const endpoint = this._sticky
+
+    try {
+      const res = await endpoint.transport.request(payload, opts)
+      if (isServerFailure(res)) {
+        endpoint.healthy = false
+      }
+
+      return res
+    } catch (err) {
+      endpoint.healthy = false
+      throw err
+    }
+  }
+
+  private async requestQuorum(
+    rpcCall: IJSONRPCRequest,
+    opts: IRPCCallOption
+  ): Promise<ITransportResponse> {
+    // ask unhealthy endpoints too if the healthy ones can't reach quorum, so
+    // that endpoints that recovered are marked healthy again
+    const healthy = this._endpoints.filter((endpoint) => endpoint.healthy)
+    const endpoints = healthy.length >= this._quorum ? healthy : this._endpoints
+
+    const responses = await Promise.all(
+      endpoints.map(async (endpoint) => {
+        try {
+          const res = await endpoint.transport.request(rpcCall, opts)
+          if (isServerFailure(res)) {
+            endpoint.healthy = false
+            return null
+          }
+
+          endpoint.healthy = true
+          return res
+        } catch (err) {
+          endpoint.healthy = false
+          return null
+        }
+      })
+    )
+
+    // group responses by result (or error)
+    const votes: Map<string, ITransportResponse[]> = new Map()
+    for (const res of responses) {
+      if (res == null) {
+        continue
+      }
+
+      const { result, error } = res.data
+      const key = JSON.stringify(error != null ? { error } : { result })
+
+      const group = votes.get(key) || []
+      group.push(res)
+      votes.set(key, group)
+    }
+
+    for (const group of votes.values()) {
+      if (group.length >= this._quorum) {
+        return group[0]
+      }
+    }
+
+    throw new RPCError(
+      `${rpcCall.method}: quorum of ${this._quorum} not reached`,
+      { method: rpcCall.method, params: rpcCall.params }
+    )
+  }
+}
+
+function isServerFailure(res: ITransportResponse): boolean {
+  return res.status >= 500 || res.status === 429
+}
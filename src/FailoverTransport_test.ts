@@ -0,0 +1,105 @@
+import "mocha"
+import { assert } from "chai"
+
+import { EthRPC } from "./EthRPC"
+import { FailoverTransport } from "./FailoverTransport"
+import { MemoryTransport } from "./MemoryTransport"
+import { ITransport } from "./Transport"
+import { assertThrow } from "./test/assert"
+
+describe("FailoverTransport", () => {
+  const unreachable: ITransport = {
+    async request() {
+      throw new Error("connect ECONNREFUSED")
+    }
+  }
+
+  function node(blockNumber: string) {
+    return new MemoryTransport({
+      eth_blockNumber: () => blockNumber,
+      eth_sendTransaction: () => `0xtx${blockNumber}`
+    })
+  }
+
+  it("fails over to the next endpoint", async () => {
+    const transport = new FailoverTransport([unreachable, node("0x1")], {
+      healthCheckInterval: 0
+    })
+    const rpc = new EthRPC(transport, undefined, { retry: false })
+
+    assert.equal(await rpc.getBlockNumber(), 1)
+    assert.equal(transport.healthyCount, 1)
+  })
+
+  it("sends transactions to the same healthy endpoint", async () => {
+    const a = node("0x1")
+    const b = node("0x2")
+    const transport = new FailoverTransport([a, b], { healthCheckInterval: 0 })
+    const rpc = new EthRPC(transport)
+
+    await rpc.rawCall("eth_sendTransaction", [{}])
+    await rpc.rawCall("eth_sendTransaction", [{}])
+
+    assert.equal(a.requests.length, 2)
+    assert.equal(b.requests.length, 0)
+  })
+
+  it("reads by quorum", async () => {
+    const transport = new FailoverTransport(
+      [node("0x1"), node("0x2"), node("0x2")],
+      { healthCheckInterval: 0, quorum: 2 }
+    )
+    const rpc = new EthRPC(transport)
+
+    assert.equal(await rpc.getBlockNumber(), 2)
+  })
+
+  it("throws if quorum is not reached", async () => {
+    const transport = new FailoverTransport(
+      [node("0x1"), node("0x2"), unreachable],
+      { healthCheckInterval: 0, quorum: 2 }
+    )
+    const rpc = new EthRPC(transport, undefined, { retry: false })
+
+    await assertThrow(async () => rpc.getBlockNumber())
+  })
+
+  it("reads by quorum again once endpoints recover", async () => {
+    let down = true
+    const flaky = (blockNumber: string): ITransport => {
+      const up = node(blockNumber)
+      return {
+        async request(payload, opts) {
+          if (down) {
+            throw new Error("connect ECONNREFUSED")
+          }
+
+          return up.request(payload, opts)
+        }
+      }
+    }
+
+    const transport = new FailoverTransport(
+      [flaky("0x1"), flaky("0x1"), flaky("0x1")],
+      { healthCheckInterval: 0, quorum: 2 }
+    )
+    const rpc = new EthRPC(transport, undefined, { retry: false })
+
+    await assertThrow(async () => rpc.getBlockNumber())
+    assert.equal(transport.healthyCount, 0)
+
+    down = false
+    assert.equal(await rpc.getBlockNumber(), 1)
+    assert.equal(transport.healthyCount, 3)
+  })
+
+  it("marks endpoints healthy or unhealthy by health check", async () => {
+    const transport = new FailoverTransport([node("0x1"), unreachable], {
+      healthCheckInterval: 0
+    })
+
+    assert.equal(transport.healthyCount, 2)
+    await transport.checkHealth()
+    assert.equal(transport.healthyCount, 1)
+  })
+})
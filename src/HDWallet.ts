@@ -0,0 +1,202 @@
+import BN = require("bn.js")
+import { createHmac, pbkdf2Sync } from "crypto"
+
+import { secp256k1 } from "./crypto"
+import { PrivateKeySigner } from "./PrivateKeySigner"
+import { ISigner, IUnsignedTransaction } from "./Signer"
+
+export interface IHDWalletOptions {
+  /**
+   * BIP-39 passphrase of the mnemonic. (default = "")
+   */
+  passphrase?: string
+
+  /**
+   * BIP-32 path of the accounts, without the account index.
+   * (default = "m/44'/60'/0'/0", the BIP-44 path of Ethereum)
+   */
+  path?: string
+
+  /**
+   * Number of accounts to derive. (default = 10)
+   */
+  count?: number
+
+  /**
+   * Index of the account that sends transactions without `from`.
+   * (default = 0)
+   */
+  defaultAccount?: number
+}
+
+const DEFAULT_PATH = "m/44'/60'/0'/0"
+const DEFAULT_COUNT = 10
+
+const HARDENED = 0x80000000
+
+/**
+ * A BIP-32 extended private key.
+ */
+interface IExtendedKey {
+  key: Buffer
+  chainCode: Buffer
+}
+
+/**
+ * HDWallet derives accounts from a BIP-39 mnemonic (or a seed), and signs
+ * transactions from any of them. Accounts are derived at `<path>/<index>`,
+ * like ganache does for its deterministic accounts.
+ *
+ * Configure it as the `signer` of `EthRPC` or `Ethereum`.
+ */
+export class HDWallet implements ISigner {
+  /**
+   * Derive accounts from a BIP-39 mnemonic. The mnemonic is not checked
+   * against the BIP-39 wordlist.
+   */
+  public static fromMnemonic(
+    mnemonic: string,
+    opts: IHDWalletOptions = {}
+  ): HDWallet {
+    return new HDWallet(mnemonicToSeed(mnemonic, opts.passphrase), opts)
+  }
+
+  /**
+   * Derived accounts, in order of index.
+   */
+  public readonly accounts: PrivateKeySigner[] = []
+
+  private _defaultAccount: number
+
+  constructor(private _seed: Buffer, opts: IHDWalletOptions = {}) {
+    const { path = DEFAULT_PATH, count = DEFAULT_COUNT } = opts
+
+    for (let i = 0; i < count; i++) {
+      this.accounts.push(this.derive(`${path}/${i}`))
+    }
+
+    this._defaultAccount = opts.defaultAccount || 0
+    if (this.accounts[this._defaultAccount] == null) {
+      throw new Error(`No account derived at index: ${this._defaultAccount}`)
+    }
+  }
+
+  /**
+   * Address of the default account.
+   */
+  public get address(): string {
+    return this.accounts[this._defaultAccount].address
+  }
+
+  /**
+   * Derive the account at a BIP-32 path, e.g. "m/44'/60'/1'/0/0".
+   */
+  public derive(path: string): PrivateKeySigner {
+    const key = derivePrivateKey(this._seed, path)
+    return new PrivateKeySigner(key.toString("hex"))
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address
+  }
+
+  public async getAddresses(): Promise<string[]> {
+    return this.accounts.map((account) => account.address)
+  }
+
+  public async signTransaction(tx: IUnsignedTransaction): Promise<string> {
+    const from = (tx.from || this.address).toLowerCase()
+
+    const account = this.accounts.find((acc) => acc.address === from)
+    if (account == null) {
+      throw new Error(`No derived account: ${from}`)
+    }
+
+    return account.signTransaction(tx)
+  }
+}
+
+/**
+ * The BIP-39 seed of a mnemonic.
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase = ""): Buffer {
+  const normalize = (str: string) => str.normalize("NFKD")
+
+  return pbkdf2Sync(
+    normalize(mnemonic.trim().replace(/\s+/g, " ")),
+    normalize(`mnemonic${passphrase}`),
+    2048,
+    64,
+    "sha512"
+  )
+}
+
+/**
+ * Derive the private key at a BIP-32 path from a seed.
+ */
+export function derivePrivateKey(seed: Buffer, path: string): Buffer {
+  const segments = path.split("/")
+  if (segments[0] !== "m") {
+    throw new Error(`Invalid derivation path: ${path}`)
+  }
+
+  let node = split(hmacSHA512(Buffer.from("Bitcoin seed"), seed))
+
+  for (const segment of segments.slice(1)) {
+    const match = /^(\d+)('?)$/.exec(segment)
+    if (match == null || Number(match[1]) >= HARDENED) {
+      throw new Error(`Invalid derivation path: ${path}`)
+    }
+
+    const index = Number(match[1]) + (match[2] ? HARDENED : 0)
+    node = deriveChild(node, index)
+  }
+
+  return node.key
+}
+
+/**
+ * BIP-32 private parent key to private child key derivation.
+ */
+function deriveChild(parent: IExtendedKey, index: number): IExtendedKey {
+  const { key, chainCode } = parent
+
+  const indexBytes = Buffer.alloc(4)
+  indexBytes.writeUInt32BE(index, 0)
+
+  const data =
+    index >= HARDENED
+      ? Buffer.concat([Buffer.from([0]), key, indexBytes])
+      : Buffer.concat([
+          Buffer.from(
+            secp256k1.keyFromPrivate(key).getPublic(true, "hex"),
+            "hex"
+          ),
+          indexBytes
+        ])
+
+  const child = split(hmacSHA512(chainCode, data))
+
+  const n = secp256k1.curve.n as BN
+  const tweak = new BN(child.key)
+  const childKey = tweak.add(new BN(key)).umod(n)
+  if (tweak.cmp(n) >= 0 || childKey.isZero()) {
+    // probability lower than 1 in 2^127
+    throw new Error(`Invalid child key at index: ${index}`)
+  }
+
+  return {
+    key: childKey.toArrayLike(Buffer, "be", 32),
+    chainCode: child.chainCode
+  }
+}
+
+function hmacSHA512(key: Buffer, data: Buffer): Buffer {
+  return createHmac("sha512", key)
+    .update(data)
+    .digest()
+}
+
+function split(digest: Buffer): IExtendedKey {
+  return { key: digest.slice(0, 32), chainCode: digest.slice(32) }
+}
@@ -0,0 +1,66 @@
+import "mocha"
+import { assert } from "chai"
+
+import { EthRPC } from "./EthRPC"
+import { derivePrivateKey, HDWallet } from "./HDWallet"
+import { MemoryTransport } from "./MemoryTransport"
+import { assertThrow } from "./test/assert"
+
+describe("HDWallet", () => {
+  // mnemonic of `ganache-cli -d`
+  const mnemonic =
+    "myth like bonus scare over problem client lizard pioneer submit female collect"
+
+  const wallet = HDWallet.fromMnemonic(mnemonic, { count: 3 })
+
+  it("derives the deterministic accounts of ganache", () => {
+    assert.deepEqual(wallet.accounts.map((account) => account.address), [
+      "0x90f8bf6a479f320ead074411a4b0e7944ea8c9c1",
+      "0xffcf8fdee72ac11b5c542428b35eef5769c409f0",
+      "0x22d491bde2303f2f43325b2108d26f1eaba1e32b"
+    ])
+  })
+
+  it("derives BIP-32 private keys", () => {
+    // BIP-32 test vector 1
+    const seed = Buffer.from("000102030405060708090a0b0c0d0e0f", "hex")
+
+    assert.equal(
+      derivePrivateKey(seed, "m/0'/1").toString("hex"),
+      "3c6cb8d0f6a264c91ea8b5030fadaa8e538b020f0a387421a12de9319dc93368"
+    )
+  })
+
+  it("rejects invalid paths", () => {
+    assert.throws(() => wallet.derive("44'/60'"), /Invalid derivation path/)
+    assert.throws(() => wallet.derive("m/x"), /Invalid derivation path/)
+  })
+
+  it("sends from the default account or a derived account", async () => {
+    const rawTxs: string[] = []
+    const transport = new MemoryTransport({
+      eth_chainId: () => "0x539",
+      eth_getTransactionCount: () => "0x0",
+      eth_sendRawTransaction: (raw: string) => {
+        rawTxs.push(raw)
+        return `0x${"1".repeat(64)}`
+      }
+    })
+
+    const rpc = new EthRPC(transport, undefined, {
+      signer: HDWallet.fromMnemonic(mnemonic, { count: 3, defaultAccount: 1 })
+    })
+    assert.equal(await rpc.getSender(), wallet.accounts[1].address)
+
+    const req = { to: wallet.address, data: "0x", gasPrice: 1 }
+    await rpc.sendTransaction(req)
+    await rpc.sendTransaction({ ...req, from: wallet.accounts[2].address })
+    assert.lengthOf(rawTxs, 2)
+
+    await assertThrow(
+      () => rpc.sendTransaction({ ...req, from: `0x${"ab".repeat(20)}` }),
+      "send from an address not in the wallet",
+      (err) => assert.match(err.message, /Signer cannot sign/)
+    )
+  })
+})
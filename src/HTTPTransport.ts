@@ -0,0 +1,190 @@
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse
+} from "axios"
+import { EventEmitter } from "eventemitter3"
+const URL = require("url-parse")
+
+import {
+  AuthorizationDeniedError,
+  AuthorizationTimeoutError,
+  IRPCErrorInfo,
+  RPCError
+} from "./errors"
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+import { ITransport, ITransportResponse } from "./Transport"
+
+export interface IAuthorization {
+  id: string
+  state: "pending" | "accepted" | "denied" | "consumed"
+  request: IJSONRPCRequest
+  createdAt: string
+}
+
+export type AuthorizationHandler = (auth: IAuthorization) => any
+
+export interface IHTTPTransportOptions {
+  /**
+   * Maximum time in ms to wait for an authorization to be accepted or denied.
+   * 0 waits forever. (default = 0)
+   */
+  authorizationTimeout?: number
+}
+
+const EVENT_AUTHORIZATION_PENDING = "authorizationPending"
+const EVENT_AUTHORIZATION_SETTLED = "authorizationSettled"
+
+/**
+ * HTTPTransport posts JSON-RPC requests to an HTTP endpoint.
+ *
+ * Basic auth credentials may be given in the URL. If the node responds with
+ * 402, the request waits until its authorization is accepted (e.g. by the
+ * user in a wallet), then it is sent again with the authorization id. The
+ * wait ends with an error if the authorization is denied, times out, or the
+ * request is canceled.
+ */
+export class HTTPTransport implements ITransport {
+  private _api: AxiosInstance
+  private _emitter: EventEmitter
+  private _authorizationTimeout: number
+
+  constructor(baseURL: string, opts: IHTTPTransportOptions = {}) {
+    this._emitter = new EventEmitter()
+    this._authorizationTimeout = opts.authorizationTimeout || 0
+
+    const url = new URL(baseURL)
+
+    const config: AxiosRequestConfig = {
+      baseURL: url.origin,
+      // don't throw on non-200 response
+      validateStatus: () => true
+    }
+
+    if (url.username !== "" && url.password !== "") {
+      config.auth = {
+        username: url.username,
+        password: url.password
+      }
+    }
+
+    this._api = axios.create(config)
+  }
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    const res = await this.post(payload, opts)
+
+    if (res.status === 402 && !Array.isArray(payload)) {
+      const auth: IAuthorization = res.data
+      return this.authCall(auth, payload, opts)
+    }
+
+    return res
+  }
+
+  /**
+   * Listen for requests that are waiting for authorization, e.g. to ask the
+   * user to approve them in a wallet.
+   */
+  public onAuthorizationPending(fn: AuthorizationHandler) {
+    this._emitter.on(EVENT_AUTHORIZATION_PENDING, fn)
+  }
+
+  public offAuthorizationPending(fn: AuthorizationHandler) {
+    this._emitter.off(EVENT_AUTHORIZATION_PENDING, fn)
+  }
+
+  /**
+   * Listen for authorizations that were accepted or denied.
+   */
+  public onAuthorizationSettled(fn: AuthorizationHandler) {
+    this._emitter.on(EVENT_AUTHORIZATION_SETTLED, fn)
+  }
+
+  public offAuthorizationSettled(fn: AuthorizationHandler) {
+    this._emitter.off(EVENT_AUTHORIZATION_SETTLED, fn)
+  }
+
+  private post(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    return this._api.post("/", payload, opts)
+  }
+
+  private async authCall(
+    auth: IAuthorization,
+    rpcCall: IJSONRPCRequest,
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    const info: IRPCErrorInfo = {
+      method: rpcCall.method,
+      params: rpcCall.params,
+      httpStatus: 402
+    }
+
+    const timeout = this._authorizationTimeout
+    const deadline = timeout > 0 ? Date.now() + timeout : Infinity
+
+    const authorizationURL = `/api/authorizations/${auth.id}/onchange`
+
+    this._emitter.emit(EVENT_AUTHORIZATION_PENDING, auth)
+
+    while (auth.state == null || auth.state === "pending") {
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        throw new AuthorizationTimeoutError(auth.id, info)
+      }
+
+      // long-poll the authorization until its state changes
+      let res: AxiosResponse
+      try {
+        res = await this._api.get(authorizationURL, {
+          cancelToken: opts.cancelToken,
+          timeout: remaining === Infinity ? 0 : remaining
+        })
+      } catch (err) {
+        if (err.code === "ECONNABORTED") {
+          // the long-poll timed out
+          continue
+        }
+
+        throw err
+      }
+
+      if (res.status !== 200) {
+        const message = (res.data && res.data.message) || res.statusText
+        throw new RPCError(message, { ...info, httpStatus: res.status })
+      }
+
+      auth = res.data
+    }
+
+    this._emitter.emit(EVENT_AUTHORIZATION_SETTLED, auth)
+
+    if (auth.state === "denied") {
+      throw new AuthorizationDeniedError(
+        `Authorization denied: ${auth.id}`,
+        info
+      )
+    }
+
+    if (auth.state === "consumed") {
+      throw new AuthorizationDeniedError(
+        `Authorization already consumed: ${auth.id}`,
+        info
+      )
+    }
+
+    return this.post(
+      {
+        ...rpcCall,
+        auth: auth.id
+      },
+      opts
+    )
+  }
+}
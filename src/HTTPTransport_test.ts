@@ -0,0 +1,116 @@
+import "mocha"
+import { assert } from "chai"
+import * as http from "http"
+
+import {
+  AuthorizationDeniedError,
+  AuthorizationTimeoutError
+} from "./errors"
+import { EthRPC } from "./EthRPC"
+import { HTTPTransport, IAuthorization } from "./HTTPTransport"
+import { assertThrow } from "./test/assert"
+
+describe("HTTPTransport", () => {
+  // authorization states the server reports, in order, for each long-poll
+  let authStates: Array<IAuthorization["state"]> = []
+  let server: http.Server
+  let baseURL: string
+
+  before((done) => {
+    server = http.createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        res.setHeader("content-type", "application/json")
+
+        if (req.method === "GET") {
+          const state = authStates.shift()
+          if (state == null) {
+            // never settles
+            return
+          }
+
+          res.end(JSON.stringify({ id: "auth1", state }))
+          return
+        }
+
+        const rpcCall = JSON.parse(body)
+        if (rpcCall.auth == null) {
+          res.statusCode = 402
+          res.end(JSON.stringify({ id: "auth1", state: "pending" }))
+          return
+        }
+
+        res.end(JSON.stringify({ id: rpcCall.id, result: rpcCall.auth }))
+      })
+    })
+
+    server.listen(0, () => {
+      baseURL = `http://localhost:${(server.address() as any).port}`
+      done()
+    })
+  })
+
+  after((done) => {
+    server.close(done)
+  })
+
+  it("sends the call again once the authorization is accepted", async () => {
+    authStates = ["pending", "accepted"]
+
+    const transport = new HTTPTransport(baseURL)
+    const pending: IAuthorization[] = []
+    const settled: IAuthorization[] = []
+    transport.onAuthorizationPending((auth) => pending.push(auth))
+    transport.onAuthorizationSettled((auth) => settled.push(auth))
+
+    const rpc = new EthRPC(transport)
+
+    assert.equal(await rpc.rawCall("eth_sendTransaction"), "auth1")
+    assert.deepEqual(pending.map((auth) => auth.id), ["auth1"])
+    assert.deepEqual(settled.map((auth) => auth.state), ["accepted"])
+  })
+
+  it("throws AuthorizationDeniedError if the authorization is denied", async () => {
+    authStates = ["denied"]
+
+    const rpc = new EthRPC(new HTTPTransport(baseURL))
+
+    await assertThrow(
+      async () => rpc.rawCall("eth_sendTransaction"),
+      "authorization denied",
+      (err) => {
+        assert.instanceOf(err, AuthorizationDeniedError)
+      }
+    )
+  })
+
+  it("throws AuthorizationTimeoutError if the authorization takes too long", async () => {
+    authStates = []
+
+    const rpc = new EthRPC(
+      new HTTPTransport(baseURL, { authorizationTimeout: 50 })
+    )
+
+    await assertThrow(
+      async () => rpc.rawCall("eth_sendTransaction"),
+      "authorization timeout",
+      (err) => {
+        assert.instanceOf(err, AuthorizationTimeoutError)
+      }
+    )
+  })
+
+  it("stops waiting for authorization if the call is canceled", async () => {
+    authStates = []
+
+    const rpc = new EthRPC(new HTTPTransport(baseURL))
+    const source = rpc.cancelTokenSource()
+
+    setTimeout(() => source.cancel("canceled"), 50)
+
+    await assertThrow(async () =>
+      rpc.rawCall("eth_sendTransaction", [], { cancelToken: source.token })
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import * as net from "net"
+
+import { ConnectionError } from "./errors"
+import { ConnectionTransport } from "./Transport"
+
+/**
+ * IPCTransport sends JSON-RPC requests over a node's IPC socket (e.g.
+ * `~/.ethereum/geth.ipc`). The connection is opened by the first request, and
+ * reopened by the next request after it is closed.
+ */
+export class IPCTransport extends ConnectionTransport {
+  private _socket?: net.Socket
+  private _connecting?: Promise<void>
+  private _buffer = ""
+
+  constructor(public path: string) {
+    super()
+  }
+
+  protected connect(): Promise<void> {
+    if (this._connecting) {
+      return this._connecting
+    }
+
+    this._connecting = new Promise<void>((resolve, reject) => {
+      const socket = net.connect(this.path)
+      socket.setEncoding("utf8")
+
+      socket.on("connect", () => {
+        this._socket = socket
+        resolve()
+      })
+
+      socket.on("data", (chunk: string) => {
+        this.receive(chunk)
+      })
+
+      socket.on("error", (err) => {
+        reject(new ConnectionError(`IPC socket error: ${err.message}`))
+      })
+
+      socket.on("close", () => {
+        this._socket = undefined
+        this._connecting = undefined
+        this._buffer = ""
+        const err = new ConnectionError(`IPC socket closed: ${this.path}`)
+        reject(err)
+        this.handleDisconnect(err)
+      })
+    })
+
+    return this._connecting
+  }
+
+  protected disconnect() {
+    if (this._socket) {
+      this._socket.end()
+    }
+  }
+
+  protected send(message: string) {
+    if (!this._socket) {
+      throw new ConnectionError(`IPC socket is not connected: ${this.path}`)
+    }
+
+    this._socket.write(message)
+  }
+
+  /**
+   * The IPC socket is a stream of JSON values, which may be split across
+   * chunks, or concatenated in one chunk.
+   */
+  private receive(chunk: string) {
+    this._buffer += chunk
+
+    const [messages, rest] = splitJSONValues(this._buffer)
+    this._buffer = rest
+
+    for (const message of messages) {
+      this.handleMessage(JSON.parse(message))
+    }
+  }
+}
+
+/**
+ * Split complete top-level JSON objects and arrays from the start of a
+ * stream buffer. Returns the complete values, and the incomplete remainder.
+ */
+export function splitJSONValues(buffer: string): [string[], string] {
+  const values: string[] = []
+
+  let depth = 0
+  let inString = false
+  let start = 0
+
+  for (let i = 0; i < buffer.length; i++) {
+    const c = buffer[i]
+
+    if (inString) {
+      if (c === "\\") {
+        i++
+      } else if (c === "\"") {
+        inString = false
+      }
+      continue
+    }
+
+    if (c === "\"") {
+      inString = true
+    } else if (c === "{" || c === "[") {
+      if (depth === 0) {
+        start = i
+      }
+      depth++
+    } else if (c === "}" || c === "]") {
+      depth--
+      if (depth === 0) {
+        values.push(buffer.slice(start, i + 1))
+        start = i + 1
+      }
+    } else if (depth === 0) {
+      // skip whitespace between values
+      start = i + 1
+    }
+  }
+
+  return [values, buffer.slice(start)]
+}
@@ -0,0 +1,74 @@
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+import { ITransport, ITransportResponse, jsonResponse } from "./Transport"
+
+/**
+ * RPC method implementations, keyed by method name. A handler returns (or
+ * resolves to) the method's result. To respond with a JSON-RPC error, throw
+ * an error with a numeric `code`.
+ */
+export interface IMemoryTransportHandlers {
+  [method: string]: (...params: any[]) => any
+}
+
+/**
+ * MemoryTransport serves JSON-RPC requests in-process, without a node. It is
+ * useful for tests.
+ */
+export class MemoryTransport implements ITransport {
+  /**
+   * All requests received, in order.
+   */
+  public requests: IJSONRPCRequest[] = []
+
+  constructor(public handlers: IMemoryTransportHandlers = {}) {}
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    if (Array.isArray(payload)) {
+      const responses = []
+      for (const rpcCall of payload) {
+        responses.push(await this.handle(rpcCall))
+      }
+
+      return jsonResponse(responses)
+    }
+
+    return jsonResponse(await this.handle(payload))
+  }
+
+  private async handle(rpcCall: IJSONRPCRequest): Promise<any> {
+    this.requests.push(rpcCall)
+
+    const { id, method, params } = rpcCall
+
+    const handler = this.handlers[method]
+    if (handler == null) {
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32601, message: `Method ${method} not supported.` }
+      }
+    }
+
+    try {
+      const result = await handler(...params)
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: result === undefined ? null : result
+      }
+    } catch (err) {
+      return {
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: typeof err.code === "number" ? err.code : -32603,
+          message: err.message,
+          data: err.data
+        }
+      }
+    }
+  }
+}
@@ -1,10 +1,10 @@
 import "mocha"
 import { assert } from "chai"
 
-import { repoData } from "./test"
+import { repoData, describeWithTestNode } from "./test"
 import { MethodMap } from "./MethodMap"
 
-describe("MethodMap", () => {
+describeWithTestNode("MethodMap", () => {
   const methods = repoData.contracts.MethodOverloading.abi
 
   const map = new MethodMap(methods)
@@ -0,0 +1,840 @@
+import { hexlify, hexStripZeros } from "./convert"
+import { keccak256 } from "./crypto"
+import { IAccountProof, ILogEntry, ITransactionLog } from "./EthRPC"
+import { MemoryTransport } from "./MemoryTransport"
+import { parseTransaction } from "./Signer"
+import {
+  ISubscription,
+  responseResult,
+  SubscriptionListener
+} from "./Transport"
+
+export interface IMockEthNodeOptions {
+  /**
+   * Accounts returned by `eth_accounts`.
+   */
+  accounts?: string[]
+
+  /**
+   * Result of `eth_gasPrice`. (default = "0x1")
+   */
+  gasPrice?: string
+
+  /**
+   * Result of `net_version`. (default = "1337")
+   */
+  networkID?: string
+
+  /**
+   * Result of `eth_estimateGas`. (default = "0x5208")
+   */
+  gasEstimate?: string
+
+  /**
+   * Base fee per gas of mined blocks. If not set, blocks have no base fee, as
+   * before the London hard fork (EIP-1559).
+   */
+  baseFeePerGas?: string
+
+  /**
+   * Result of `eth_maxPriorityFeePerGas`. (default = "0x1")
+   */
+  maxPriorityFeePerGas?: string
+
+  /**
+   * Result of `eth_chainId`. (default = "0x539")
+   */
+  chainID?: string
+
+  /**
+   * Support `eth_subscribe`, like a node connected by WebSocket.
+   * (default = false)
+   */
+  subscriptions?: boolean
+
+  /**
+   * Mine a block for each transaction as soon as it is sent. (default = false)
+   */
+  autoMine?: boolean
+}
+
+/**
+ * The result of `eth_call` for a method selector. A function receives the
+ * call's transaction object; it may throw an error with a numeric `code` (and
+ * revert `data`) to respond with a JSON-RPC error.
+ */
+export type MockCallResult = string | ((tx: any) => string)
+
+interface IMockTransaction {
+  hash: string
+  nonce: string
+  from: string
+  to: string
+  value: string
+  gas: string
+  gasPrice: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  type: string
+  input: string
+  blockHash: string | null
+  blockNumber: string | null
+  transactionIndex: string | null
+  failed: boolean
+  logs: ITransactionLog[]
+}
+
+interface IMockSubscription {
+  type: string
+  filter: any
+  listener: SubscriptionListener
+  onResubscribe?: () => void
+}
+
+interface IMockFilter {
+  // undefined for block filters
+  logFilter?: any
+
+  // number of the last block polled
+  cursor: number
+
+  // logs of polled blocks dropped by `reorg`, not polled yet
+  removed: ILogEntry[]
+}
+
+interface IMockBlock {
+  number: number
+  hash: string
+  timestamp: number
+  transactions: IMockTransaction[]
+  logs: ILogEntry[]
+}
+
+const DEFAULT_ACCOUNT = "0x90f8bf6a479f320ead074411a4b0e7944ea8c9c1"
+
+/**
+ * MockEthNode is an in-process, scriptable Ethereum node. It implements the
+ * subset of JSON-RPC methods used by `EthRPC`, so tests can run without
+ * ganache.
+ *
+ * Transactions stay pending until a block is mined with `mine`, unless
+ * `autoMine` is set. Logs can be emitted by transactions, or directly into the
+ * next block with `emitLog`.
+ */
+export class MockEthNode extends MemoryTransport {
+  public accounts: string[]
+  public gasPrice: string
+  public gasEstimate: string
+  public baseFeePerGas?: string
+  public maxPriorityFeePerGas: string
+  public networkID: string
+  public chainID: string
+  public autoMine: boolean
+
+  /**
+   * Only set with the `subscriptions` option, since transports that support
+   * subscriptions are recognized by this method.
+   */
+  public subscribe?: (
+    params: any[],
+    listener: SubscriptionListener,
+    onResubscribe?: () => void
+  ) => Promise<ISubscription>
+
+  private _blocks: IMockBlock[] = [
+    {
+      number: 0,
+      hash: blockHash(0),
+      timestamp: unixTime(),
+      transactions: [],
+      logs: []
+    }
+  ]
+  private _pending: IMockTransaction[] = []
+  private _pendingLogs: ITransactionLog[] = []
+  private _transactions: Map<string, IMockTransaction> = new Map()
+  private _transactionNonce = 0
+  private _callResults: Map<string, MockCallResult> = new Map()
+  private _sendLogs: Map<string, ITransactionLog[]> = new Map()
+  // revert data of failing methods, by selector
+  private _failingSelectors: Map<string, string> = new Map()
+  private _nonces: Map<string, number> = new Map()
+  private _code: Map<string, string> = new Map()
+  private _storage: Map<string, string> = new Map()
+  private _subscriptions: Map<string, IMockSubscription> = new Map()
+  private _subscriptionNonce = 0
+  private _connected = true
+  private _filters: Map<string, IMockFilter> = new Map()
+  private _filterNonce = 0
+  private _blockNonce = 0
+
+  constructor(opts: IMockEthNodeOptions = {}) {
+    super()
+
+    this.accounts = opts.accounts || [DEFAULT_ACCOUNT]
+    this.gasPrice = opts.gasPrice || "0x1"
+    this.gasEstimate = opts.gasEstimate || "0x5208"
+    this.baseFeePerGas = opts.baseFeePerGas
+    this.maxPriorityFeePerGas = opts.maxPriorityFeePerGas || "0x1"
+    this.networkID = opts.networkID || "1337"
+    this.chainID = opts.chainID || "0x539"
+    this.autoMine = opts.autoMine || false
+
+    this.handlers = {
+      eth_accounts: () => this.accounts,
+      eth_gasPrice: () => this.gasPrice,
+      eth_maxPriorityFeePerGas: () => this.maxPriorityFeePerGas,
+      eth_feeHistory: (blockCount: string, newestBlock: string, p?: number[]) =>
+        this.feeHistory(Number(blockCount), newestBlock, p || []),
+      net_version: () => this.networkID,
+      eth_chainId: () => this.chainID,
+      eth_getCode: (address: string) =>
+        this._code.get(address.toLowerCase()) || "0x",
+      eth_getStorageAt: (address: string, position: string) =>
+        this._storage.get(storageKey(address, position)) || hash32("", 0),
+      eth_blockNumber: () => quantity(this.blockNumber),
+      eth_getBalance: () => "0x0",
+      eth_getProof: (address: string, storageKeys: string[], block: string) =>
+        this.getProof(address, storageKeys, block),
+      eth_getTransactionCount: (address: string, block: string) =>
+        quantity(this.transactionCount(address.toLowerCase(), block)),
+      eth_call: (tx: any) => this.call(tx),
+      eth_estimateGas: (tx: any) => this.estimateGas(tx),
+      eth_sendTransaction: (tx: any) => this.sendTransaction(tx),
+      eth_sendRawTransaction: (raw: string) => this.sendRawTransaction(raw),
+      eth_getTransactionByHash: (txid: string) => this.getTransaction(txid),
+      eth_getTransactionReceipt: (txid: string) => this.getReceipt(txid),
+      eth_getBlockByNumber: (block: string, full: boolean) =>
+        this.getBlock(this._blocks[this.toBlockNumber(block)], full),
+      eth_getBlockByHash: (hash: string, full: boolean) =>
+        this.getBlock(this._blocks.find((b) => b.hash === hash), full),
+      eth_getLogs: (filter: any) => this.getLogs(filter),
+      eth_newFilter: (filter: any) => this.newFilter(filter),
+      eth_newBlockFilter: () => this.newFilter(),
+      eth_getFilterChanges: (id: string) => this.getFilterChanges(id),
+      eth_getFilterLogs: (id: string) =>
+        this.getLogs(this.getFilter(id).logFilter),
+      eth_uninstallFilter: (id: string) => this._filters.delete(id)
+    }
+
+    if (opts.subscriptions) {
+      this.handlers.eth_subscribe = (type: string) => {
+        if (!SUBSCRIPTION_TYPES.includes(type)) {
+          throw Object.assign(new Error(`unsupported subscription: ${type}`), {
+            code: -32602
+          })
+        }
+
+        return quantity(++this._subscriptionNonce)
+      }
+
+      this.subscribe = (params, listener, onResubscribe) =>
+        this.subscribeMock(params, listener, onResubscribe)
+    }
+  }
+
+  /**
+   * Number of the latest block.
+   */
+  public get blockNumber(): number {
+    return this._blocks.length - 1
+  }
+
+  /**
+   * Forget all filters, as a node does with filters that are not polled for a
+   * while.
+   */
+  public forgetFilters() {
+    this._filters.clear()
+  }
+
+  /**
+   * Lose the connection of subscriptions. Notifications are missed until
+   * `reconnect`.
+   */
+  public disconnect() {
+    this._connected = false
+  }
+
+  /**
+   * Restore the connection of subscriptions, and call their `onResubscribe`,
+   * as a ConnectionTransport does after subscribing again.
+   */
+  public reconnect() {
+    this._connected = true
+
+    for (const subscription of this._subscriptions.values()) {
+      if (subscription.onResubscribe) {
+        subscription.onResubscribe()
+      }
+    }
+  }
+
+  /**
+   * Deploy code at an address.
+   */
+  public setCode(address: string, code: string) {
+    this._code.set(address.toLowerCase(), code)
+  }
+
+  /**
+   * Set the value of a storage slot.
+   *
+   * @param position index of the slot
+   * @param value 32 bytes hex string
+   */
+  public setStorageAt(address: string, position: number, value: string) {
+    this._storage.set(storageKey(address, quantity(position)), value)
+  }
+
+  /**
+   * Set the result of `eth_call` for a method.
+   *
+   * @param selector 4 bytes method selector, e.g. "0x2e64cec1"
+   * @param result ABI encoded return data, or a function that computes it
+   */
+  public setCallResult(selector: string, result: MockCallResult) {
+    this._callResults.set(selector.toLowerCase(), result)
+  }
+
+  /**
+   * Set the logs that transactions calling a method emit when mined. The logs
+   * are emitted from the address the transaction is sent to.
+   *
+   * @param selector 4 bytes method selector
+   */
+  public setTransactionLogs(
+    selector: string,
+    logs: Array<{ topics: string[]; data: string }>
+  ) {
+    this._sendLogs.set(
+      selector.toLowerCase(),
+      logs.map((log) => ({ address: "", ...log }))
+    )
+  }
+
+  /**
+   * Make transactions calling a method fail when mined. Calls and estimating
+   * their gas revert.
+   *
+   * @param selector 4 bytes method selector
+   * @param revertData revert data returned by calls, e.g. an encoded
+   * `Error(string)`
+   */
+  public failMethod(selector: string, revertData: string = "0x") {
+    this._failingSelectors.set(selector.toLowerCase(), revertData)
+  }
+
+  /**
+   * Mark a transaction as failed. The transaction may be pending or mined.
+   */
+  public failTransaction(txid: string) {
+    const tx = this._transactions.get(txid)
+    if (tx == null) {
+      throw new Error(`Unknown transaction: ${txid}`)
+    }
+
+    tx.failed = true
+  }
+
+  /**
+   * Emit a log into the next mined block.
+   */
+  public emitLog(log: ITransactionLog) {
+    this._pendingLogs.push(log)
+  }
+
+  /**
+   * Mine blocks. Pending transactions and logs are included in the first
+   * block.
+   *
+   * @param n number of blocks to mine
+   */
+  public mine(n: number = 1) {
+    for (let i = 0; i < n; i++) {
+      const number = this._blocks.length
+      // unique, so that a block mined again after a reorg has a new hash
+      const hash = blockHash(++this._blockNonce)
+
+      const block: IMockBlock = {
+        number,
+        hash,
+        timestamp: unixTime(),
+        transactions: [],
+        logs: []
+      }
+
+      const addLog = (log: ITransactionLog, tx?: IMockTransaction) => {
+        block.logs.push({
+          ...log,
+          removed: false,
+          logIndex: quantity(block.logs.length),
+          transactionIndex: tx ? tx.transactionIndex : null,
+          transactionHash: tx ? tx.hash : null,
+          blockHash: hash,
+          blockNumber: quantity(number)
+        })
+      }
+
+      this._pending.forEach((tx, index) => {
+        tx.blockHash = hash
+        tx.blockNumber = quantity(number)
+        tx.transactionIndex = quantity(index)
+        block.transactions.push(tx)
+
+        if (!tx.failed) {
+          for (const log of tx.logs) {
+            addLog(log, tx)
+          }
+        }
+      })
+
+      for (const log of this._pendingLogs) {
+        addLog(log)
+      }
+
+      this._pending = []
+      this._pendingLogs = []
+      this._blocks.push(block)
+
+      this.notify("newHeads", () => this.getBlock(block, false))
+      for (const log of block.logs) {
+        this.notify("logs", (filter) => matchLog(filter, log) && log)
+      }
+    }
+  }
+
+  /**
+   * Drop the latest blocks, as in a chain reorganization. Their transactions
+   * are pending again, and filters that polled their logs get them back as
+   * removed. Logs emitted with `emitLog` are dropped.
+   *
+   * @param depth number of blocks to drop
+   */
+  public reorg(depth: number = 1) {
+    const dropped = this._blocks.splice(this._blocks.length - depth, depth)
+
+    const transactions: IMockTransaction[] = []
+    for (const block of dropped) {
+      for (const tx of block.transactions) {
+        tx.blockHash = null
+        tx.blockNumber = null
+        tx.transactionIndex = null
+        transactions.push(tx)
+      }
+    }
+
+    this._pending = [...transactions, ...this._pending]
+
+    for (const filter of this._filters.values()) {
+      const { logFilter } = filter
+      if (logFilter != null) {
+        for (const block of dropped) {
+          if (block.number > filter.cursor) {
+            continue
+          }
+
+          for (const log of block.logs) {
+            if (matchLog(logFilter, log)) {
+              filter.removed.push({ ...log, removed: true })
+            }
+          }
+        }
+      }
+
+      filter.cursor = Math.min(filter.cursor, this.blockNumber)
+    }
+  }
+
+  private call(tx: any): string {
+    const selector = (tx.data || "").slice(0, 10).toLowerCase()
+    this.checkRevert(selector)
+
+    const result = this._callResults.get(selector)
+
+    if (result == null) {
+      return "0x"
+    }
+
+    return typeof result === "function" ? result(tx) : result
+  }
+
+  private estimateGas(tx: any): string {
+    const selector = (tx.data || "").slice(0, 10).toLowerCase()
+    this.checkRevert(selector)
+
+    return this.gasEstimate
+  }
+
+  private checkRevert(selector: string) {
+    const revertData = this._failingSelectors.get(selector)
+    if (revertData != null) {
+      throw Object.assign(new Error("execution reverted"), {
+        code: 3,
+        data: revertData
+      })
+    }
+  }
+
+  private sendRawTransaction(raw: string): string {
+    const tx = parseTransaction(raw)
+    if (tx.chainId !== Number(this.chainID)) {
+      throw Object.assign(new Error("invalid chain id"), { code: -32000 })
+    }
+
+    const hash = keccak256(Buffer.from(raw.replace(/^0x/, ""), "hex"))
+    return this.sendTransaction(tx, `0x${hash.toString("hex")}`)
+  }
+
+  private sendTransaction(req: any, hash?: string): string {
+    const from = (req.from || this.accounts[0]).toLowerCase()
+    const nonce =
+      req.nonce != null ? Number(req.nonce) : this._nonces.get(from) || 0
+    this._nonces.set(from, nonce + 1)
+
+    const input = req.data || "0x"
+    const selector = input.slice(0, 10).toLowerCase()
+
+    if (hash == null) {
+      hash = txHash(++this._transactionNonce)
+    }
+
+    const logs = (this._sendLogs.get(selector) || []).map((log) => ({
+      ...log,
+      address: req.to
+    }))
+
+    // a transaction with the same nonce replaces a pending one
+    const replaced = this._pending.find(
+      (pending) => pending.from === from && Number(pending.nonce) === nonce
+    )
+    if (replaced) {
+      this._pending = this._pending.filter((pending) => pending !== replaced)
+      this._transactions.delete(replaced.hash)
+    }
+
+    const tx: IMockTransaction = {
+      hash,
+      nonce: quantity(nonce),
+      from,
+      to: req.to,
+      value: req.value || "0x0",
+      gas: req.gas || "0x0",
+      gasPrice: req.gasPrice || req.maxFeePerGas || this.gasPrice,
+      maxFeePerGas: req.maxFeePerGas,
+      maxPriorityFeePerGas: req.maxPriorityFeePerGas,
+      type: req.type || (req.maxFeePerGas ? "0x2" : "0x0"),
+      input,
+      blockHash: null,
+      blockNumber: null,
+      transactionIndex: null,
+      failed: this._failingSelectors.has(selector),
+      logs
+    }
+
+    this._transactions.set(hash, tx)
+    this._pending.push(tx)
+
+    this.notify("newPendingTransactions", () => hash)
+
+    if (this.autoMine) {
+      this.mine()
+    }
+
+    return hash
+  }
+
+  private transactionCount(address: string, block: string): number {
+    if (block === "pending") {
+      return this._nonces.get(address) || 0
+    }
+
+    let count = 0
+    for (const tx of this._transactions.values()) {
+      if (tx.from === address && tx.blockNumber != null) {
+        count = Math.max(count, Number(tx.nonce) + 1)
+      }
+    }
+
+    return count
+  }
+
+  // the mock has no state trie, so the proofs are empty
+  private getProof(
+    address: string,
+    storageKeys: string[],
+    block: string
+  ): IAccountProof {
+    const code = this._code.get(address.toLowerCase()) || "0x"
+    const codeHash = keccak256(Buffer.from(code.slice(2), "hex"))
+
+    return {
+      address,
+      accountProof: [],
+      balance: "0x0",
+      codeHash: `0x${codeHash.toString("hex")}`,
+      nonce: quantity(this.transactionCount(address.toLowerCase(), block)),
+      storageHash: hash32("", 0),
+      storageProof: storageKeys.map((key) => ({
+        key,
+        value: this._storage.get(storageKey(address, key)) || hash32("", 0),
+        proof: []
+      }))
+    }
+  }
+
+  private getTransaction(txid: string) {
+    const tx = this._transactions.get(txid)
+    if (tx == null) {
+      return null
+    }
+
+    const { failed: _failed, logs: _logs, ...result } = tx
+    return result
+  }
+
+  private getReceipt(txid: string) {
+    const tx = this._transactions.get(txid)
+    if (tx == null || tx.blockNumber == null) {
+      return null
+    }
+
+    const block = this._blocks[Number(tx.blockNumber)]
+    const logs = block.logs.filter((log) => log.transactionHash === tx.hash)
+
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: tx.transactionIndex,
+      blockHash: tx.blockHash,
+      blockNumber: tx.blockNumber,
+      from: tx.from,
+      to: tx.to,
+      cumulativeGasUsed: "0x5208",
+      gasUsed: "0x5208",
+      effectiveGasPrice: tx.gasPrice,
+      contractAddress: null,
+      logs,
+      logsBloom: `0x${"0".repeat(512)}`,
+      status: tx.failed ? "0x0" : "0x1"
+    }
+  }
+
+  private getBlock(block: IMockBlock | undefined, full: boolean) {
+    if (block == null) {
+      return null
+    }
+
+    const parent = this._blocks[block.number - 1]
+    const emptyRoot = hash32("", 0)
+
+    return {
+      number: quantity(block.number),
+      hash: block.hash,
+      parentHash: parent ? parent.hash : emptyRoot,
+      nonce: "0x0000000000000000",
+      sha3Uncles: emptyRoot,
+      logsBloom: `0x${"0".repeat(512)}`,
+      transactionsRoot: emptyRoot,
+      stateRoot: emptyRoot,
+      receiptsRoot: emptyRoot,
+      miner: this.accounts[0],
+      difficulty: "0x0",
+      totalDifficulty: "0x0",
+      extraData: "0x",
+      size: "0x3e8",
+      gasLimit: "0x6691b7",
+      gasUsed: quantity(block.transactions.length * 0x5208),
+      timestamp: quantity(block.timestamp),
+      baseFeePerGas: this.baseFeePerGas,
+      transactions: block.transactions.map(
+        (tx) => (full ? this.getTransaction(tx.hash) : tx.hash)
+      ),
+      uncles: []
+    }
+  }
+
+  private feeHistory(
+    blockCount: number,
+    newestBlock: string,
+    percentiles: number[]
+  ) {
+    const newest = this.toBlockNumber(newestBlock)
+    const oldest = Math.max(newest - blockCount + 1, 0)
+    const blocks = this._blocks.slice(oldest, newest + 1)
+
+    return {
+      oldestBlock: quantity(oldest),
+      baseFeePerGas: [...blocks, null].map(() => this.baseFeePerGas || "0x0"),
+      gasUsedRatio: blocks.map(() => 0.5),
+      reward: blocks.map(() => percentiles.map(() => this.maxPriorityFeePerGas))
+    }
+  }
+
+  private getLogs(filter: any = {}): ILogEntry[] {
+    const fromBlock = this.toBlockNumber(filter.fromBlock)
+    const toBlock = this.toBlockNumber(filter.toBlock)
+
+    const logs: ILogEntry[] = []
+    for (const block of this._blocks.slice(fromBlock, toBlock + 1)) {
+      for (const log of block.logs) {
+        if (matchLog(filter, log)) {
+          logs.push(log)
+        }
+      }
+    }
+
+    return logs
+  }
+
+  private newFilter(logFilter?: any): string {
+    const id = quantity(++this._filterNonce)
+    this._filters.set(id, { logFilter, cursor: this.blockNumber, removed: [] })
+    return id
+  }
+
+  private getFilter(id: string): IMockFilter {
+    const filter = this._filters.get(id)
+    if (filter == null) {
+      throw Object.assign(new Error("filter not found"), { code: -32000 })
+    }
+
+    return filter
+  }
+
+  private getFilterChanges(id: string): Array<ILogEntry | string> {
+    const filter = this.getFilter(id)
+    const blocks = this._blocks.slice(filter.cursor + 1)
+    filter.cursor = this.blockNumber
+
+    const { logFilter } = filter
+    if (logFilter == null) {
+      return blocks.map((block) => block.hash)
+    }
+
+    // blocks before the cursor were polled already, so only block numbers
+    // narrow the range
+    const { fromBlock: from, toBlock: to } = logFilter
+    const fromBlock = isBlockTag(from) ? 0 : Number(from)
+    const toBlock = isBlockTag(to) ? Infinity : Number(to)
+
+    const logs: ILogEntry[] = filter.removed
+    filter.removed = []
+
+    for (const block of blocks) {
+      if (block.number < fromBlock || block.number > toBlock) {
+        continue
+      }
+
+      logs.push(...block.logs.filter((log) => matchLog(logFilter, log)))
+    }
+
+    return logs
+  }
+
+  private async subscribeMock(
+    params: any[],
+    listener: SubscriptionListener,
+    onResubscribe?: () => void
+  ): Promise<ISubscription> {
+    const rpcCall = { id: 0, method: "eth_subscribe", params }
+    const id = responseResult(await this.request(rpcCall), rpcCall)
+
+    const [type, filter = {}] = params
+    this._subscriptions.set(id, { type, filter, listener, onResubscribe })
+
+    return {
+      unsubscribe: async () => {
+        this._subscriptions.delete(id)
+      }
+    }
+  }
+
+  /**
+   * Send a notification to subscriptions of a type. `result` returns the
+   * notification for a subscription's filter, or false to skip it.
+   */
+  private notify(type: string, result: (filter: any) => any) {
+    if (!this._connected) {
+      return
+    }
+
+    for (const subscription of this._subscriptions.values()) {
+      if (subscription.type !== type) {
+        continue
+      }
+
+      const notification = result(subscription.filter)
+      if (notification !== false) {
+        subscription.listener(notification)
+      }
+    }
+  }
+
+  private toBlockNumber(block?: string): number {
+    if (block == null || block === "latest" || block === "pending") {
+      return this.blockNumber
+    }
+
+    if (block === "earliest") {
+      return 0
+    }
+
+    return Number(block)
+  }
+}
+
+function isBlockTag(block?: string): boolean {
+  return block == null || !/^0x[0-9a-f]+$/i.test(block)
+}
+
+const SUBSCRIPTION_TYPES = ["newHeads", "logs", "newPendingTransactions"]
+
+/**
+ * Whether a log matches the address and topics of a filter.
+ */
+function matchLog(filter: any, log: ILogEntry): boolean {
+  if (filter.address != null) {
+    const addresses = ([] as string[])
+      .concat(filter.address)
+      .map((addr) => addr.toLowerCase())
+
+    if (!addresses.includes(log.address.toLowerCase())) {
+      return false
+    }
+  }
+
+  const topics: Array<string | string[] | null> = filter.topics || []
+
+  return topics.every((topic, i) => {
+    if (topic == null) {
+      return true
+    }
+
+    return ([] as string[]).concat(topic).includes(log.topics[i])
+  })
+}
+
+function storageKey(address: string, position: string): string {
+  return `${address.toLowerCase()}:${Number(position)}`
+}
+
+function unixTime(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+function quantity(n: number): string {
+  return hexStripZeros(hexlify(n))
+}
+
+function hash32(prefix: string, n: number): string {
+  const hex = n.toString(16)
+  return `0x${prefix}${"0".repeat(64 - prefix.length - hex.length)}${hex}`
+}
+
+function blockHash(n: number): string {
+  return hash32("b", n)
+}
+
+function txHash(n: number): string {
+  return hash32("e", n)
+}
@@ -0,0 +1,35 @@
+import "mocha"
+import { assert } from "chai"
+
+import { IETHABI } from "./ethjs-abi"
+import { fooABI, fooAddress, useMockFoo } from "./test/mock"
+
+const { encodeParams, encodeSignature } = require("ethjs-abi") as IETHABI
+
+describe("MockEthNode", () => {
+  const [getFoo] = fooABI
+  const address = fooAddress
+
+  const mock = useMockFoo()
+
+  it("returns canned call results by method selector", async () => {
+    mock.node.setCallResult(
+      encodeSignature(getFoo),
+      encodeParams(["uint256"], [42])
+    )
+
+    assert.equal(await mock.contract.returnNumber("getFoo"), 42)
+  })
+
+  it("keeps transactions pending until a block is mined", async () => {
+    const tx = await mock.contract.send("setFoo", [1])
+
+    assert.isNull(await mock.rpc.getTransactionReceipt(tx.txid))
+
+    mock.node.mine()
+
+    const receipt = (await mock.rpc.getTransactionReceipt(tx.txid))!
+    assert.equal(receipt.blockNumber, "0x1")
+    assert.equal(receipt.to, address)
+  })
+})
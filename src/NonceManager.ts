@@ -0,0 +1,117 @@
+import { EthRPC } from "./EthRPC"
+
+interface IAccount {
+  // pending transaction count of the node when the account was seeded
+  seed: Promise<number>
+  nonce?: number
+  // number of sends that reserved a nonce and have not finished yet
+  inflight: number
+  // nonces of sends that were not used, in ascending order
+  unused: number[]
+}
+
+/**
+ * NonceManager assigns nonces to transactions sent concurrently from the same
+ * address, so that they don't collide.
+ *
+ * Nonces are seeded from the node's pending transaction count, and counted
+ * locally while sends are in flight. The nonce of a send that never reached
+ * the node, or that the node rejected, is reserved again by the next send, so
+ * that it doesn't leave a gap that holds back the transactions after it. If
+ * the node rejected the nonce as used, the address is seeded again instead.
+ * Once all sends of an address are done, the address is seeded from the node
+ * again. This resynchronizes with the node after dropped transactions, or
+ * transactions sent by others.
+ */
+export class NonceManager {
+  private _accounts: Map<string, IAccount> = new Map()
+
+  constructor(private _rpc: EthRPC) {}
+
+  /**
+   * Reserve the next nonce of `address`. Call `release` once the transaction
+   * is sent, or failed to send.
+   */
+  public async reserve(address: string): Promise<number> {
+    const key = address.toLowerCase()
+
+    let account = this._accounts.get(key)
+    if (account == null) {
+      account = {
+        seed: this._rpc.getTransactionCount(key, "pending"),
+        inflight: 0,
+        unused: []
+      }
+      this._accounts.set(key, account)
+    }
+
+    account.inflight++
+
+    let seed: number
+    try {
+      seed = await account.seed
+    } catch (err) {
+      this.release(key)
+      throw err
+    }
+
+    if (account.unused.length > 0) {
+      return account.unused.shift()!
+    }
+
+    if (account.nonce == null) {
+      account.nonce = seed
+    }
+
+    return account.nonce++
+  }
+
+  /**
+   * Finish a send that reserved a nonce.
+   *
+   * @param unusedNonce the reserved nonce, if the send never reached the node
+   * or the node rejected it. It is reserved again by the next send.
+   */
+  public release(address: string, unusedNonce?: number) {
+    const key = address.toLowerCase()
+
+    const account = this._accounts.get(key)
+    if (account == null) {
+      return
+    }
+
+    if (unusedNonce != null) {
+      account.unused.push(unusedNonce)
+      account.unused.sort((a, b) => a - b)
+    }
+
+    account.inflight--
+    if (account.inflight <= 0) {
+      this._accounts.delete(key)
+    }
+  }
+
+  /**
+   * Seed `address` from the node again, while other sends are in flight. Call
+   * it if the node rejected a nonce as used, so that the next sends skip the
+   * nonces the node knows.
+   */
+  public resync(address: string) {
+    const key = address.toLowerCase()
+
+    const account = this._accounts.get(key)
+    if (account == null) {
+      return
+    }
+
+    const seed = this._rpc.getTransactionCount(key, "pending").then((count) => {
+      account.nonce = Math.max(account.nonce || 0, count)
+      account.unused = account.unused.filter((nonce) => nonce >= count)
+      return count
+    })
+
+    // only sends that reserve a nonce later see the error, if it fails
+    seed.catch(() => undefined)
+    account.seed = seed
+  }
+}
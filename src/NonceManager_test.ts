@@ -0,0 +1,168 @@
+import "mocha"
+import { assert } from "chai"
+
+import { EthRPC } from "./EthRPC"
+import { MemoryTransport } from "./MemoryTransport"
+import { ISigner } from "./Signer"
+import { sleep } from "./sleep"
+import { assertThrow } from "./test/assert"
+
+describe("NonceManager", () => {
+  const sender = "0x00000000000000000000000000000000000000aa"
+
+  // nonces of transactions accepted by the node
+  let sent: number[]
+  let failNextSend: boolean
+  let failNonce: number | undefined
+  let slowNonce: number | undefined
+  let transport: MemoryTransport
+  let rpc: EthRPC
+
+  const send = () =>
+    rpc.sendTransaction({ to: "0xbb", data: "0x", gasPrice: 1 })
+
+  const countRequests = (method: string) =>
+    transport.requests.filter((req) => req.method === method).length
+
+  beforeEach(() => {
+    sent = []
+    failNextSend = false
+    failNonce = undefined
+    slowNonce = undefined
+
+    const sendTransaction = async (tx: any) => {
+      const nonce = Number(tx.nonce)
+      await sleep(nonce === slowNonce ? 30 : 1)
+
+      if (sent.includes(nonce)) {
+        throw Object.assign(new Error("nonce too low"), { code: -32000 })
+      }
+
+      if (failNextSend || nonce === failNonce) {
+        failNextSend = false
+        failNonce = undefined
+        throw Object.assign(new Error("insufficient funds"), {
+          code: -32000
+        })
+      }
+
+      sent.push(nonce)
+      return `0x${sent.length}`
+    }
+
+    transport = new MemoryTransport({
+      eth_getTransactionCount: async () => {
+        await sleep(5)
+        // the nonce after the highest nonce sent
+        return `0x${(Math.max(-1, ...sent) + 1).toString(16)}`
+      },
+      eth_chainId: () => "0x1",
+      eth_sendTransaction: sendTransaction,
+      // transactions "signed" by the test signer are JSON
+      eth_sendRawTransaction: (rawTx: string) =>
+        sendTransaction(JSON.parse(rawTx))
+    })
+
+    rpc = new EthRPC(transport, sender, { nonceManager: true })
+  })
+
+  it("assigns nonces to concurrent sends", async () => {
+    await Promise.all([send(), send(), send(), send()])
+
+    assert.deepEqual(sent.sort(), [0, 1, 2, 3])
+    assert.equal(countRequests("eth_getTransactionCount"), 1)
+  })
+
+  it("does not assign nonces to sends with a nonce", async () => {
+    await rpc.sendTransaction({ to: "0xbb", data: "0x", gasPrice: 1, nonce: 7 })
+
+    assert.deepEqual(sent, [7])
+    assert.equal(countRequests("eth_getTransactionCount"), 0)
+  })
+
+  it("resyncs with the node after a failed send", async () => {
+    await send()
+
+    failNextSend = true
+    await assertThrow(send, "send failed")
+
+    await send()
+    assert.deepEqual(sent, [0, 1])
+  })
+
+  it("reuses the nonce of a rejected send", async () => {
+    failNonce = 1
+    slowNonce = 2
+
+    const sends = [send(), send(), send()].map((p) =>
+      p.catch((err) => err)
+    )
+    await sleep(15)
+
+    // nonce 1 was rejected, while nonce 2 is still in flight
+    await send()
+
+    const results = await Promise.all(sends)
+    assert.instanceOf(results[1], Error)
+    assert.deepEqual(sent.sort(), [0, 1, 2])
+    assert.equal(countRequests("eth_getTransactionCount"), 1)
+  })
+
+  it("reuses the nonce of a send that never reached the node", async () => {
+    const signer: ISigner = {
+      getAddress: async () => sender,
+      signTransaction: async (tx) => {
+        if (Number(tx.nonce) === 1 && failNonce === 1) {
+          failNonce = undefined
+          throw new Error("signing failed")
+        }
+
+        return JSON.stringify(tx)
+      }
+    }
+    rpc = new EthRPC(transport, sender, { nonceManager: true, signer })
+
+    failNonce = 1
+    slowNonce = 2
+
+    const sends = [send(), send(), send()].map((p) =>
+      p.catch((err) => err)
+    )
+    await sleep(15)
+
+    // nonce 1 was never sent, while nonce 2 is still in flight
+    await send()
+
+    const results = await Promise.all(sends)
+    assert.match(results[1].message, /signing failed/)
+    assert.deepEqual(sent.sort(), [0, 1, 2])
+    assert.equal(countRequests("eth_sendRawTransaction"), 3)
+  })
+
+  it("seeds again if the node rejects a nonce as used", async () => {
+    slowNonce = 0
+    const first = send()
+    await sleep(15)
+
+    // sent by someone else, while nonce 0 is in flight
+    sent.push(1, 2)
+
+    await assertThrow(send, "nonce too low")
+    await send()
+    await first
+
+    assert.deepEqual(sent.sort(), [0, 1, 2, 3])
+    assert.equal(countRequests("eth_getTransactionCount"), 2)
+  })
+
+  it("resyncs with the node once sends are done", async () => {
+    await Promise.all([send(), send()])
+
+    // sent by someone else
+    sent.push(2)
+
+    await send()
+    assert.deepEqual(sent.sort(), [0, 1, 2, 3])
+    assert.equal(countRequests("eth_getTransactionCount"), 2)
+  })
+})
@@ -0,0 +1,56 @@
+import { privateKeyToAddress, secp256k1 } from "./crypto"
+import {
+  ISigner,
+  IUnsignedTransaction,
+  serializeTransaction,
+  transactionSigningHash
+} from "./Signer"
+
+/**
+ * PrivateKeySigner signs transactions with a secp256k1 private key.
+ */
+export class PrivateKeySigner implements ISigner {
+  public readonly address: string
+
+  private _privateKey: Buffer
+
+  /**
+   * @param privateKey 32 bytes private key, as hex
+   */
+  constructor(privateKey: string) {
+    const key = Buffer.from(privateKey.replace(/^0x/, ""), "hex")
+    if (key.length !== 32) {
+      throw new Error("Private key must be 32 bytes")
+    }
+
+    this._privateKey = key
+    this.address = privateKeyToAddress(key)
+  }
+
+  /**
+   * The private key, as hex. See `encryptKeystore` to store it safely.
+   */
+  public get privateKey(): string {
+    return `0x${this._privateKey.toString("hex")}`
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address
+  }
+
+  public async signTransaction(tx: IUnsignedTransaction): Promise<string> {
+    const hash = transactionSigningHash(tx)
+    const sig = secp256k1.sign(hash, this._privateKey, {
+      canonical: true,
+      pers: undefined
+    })
+
+    const signed = serializeTransaction(tx, {
+      r: sig.r.toString(16),
+      s: sig.s.toString(16),
+      recoveryParam: sig.recoveryParam!
+    })
+
+    return `0x${signed.toString("hex")}`
+  }
+}
@@ -0,0 +1,176 @@
+import "mocha"
+import { assert } from "chai"
+
+import { keccak256, privateKeyToAddress } from "./crypto"
+import { EthRPC } from "./EthRPC"
+import { MemoryTransport } from "./MemoryTransport"
+import { MockEthNode } from "./MockEthNode"
+import { PrivateKeySigner } from "./PrivateKeySigner"
+import { IUnsignedTransaction, parseTransaction } from "./Signer"
+import { assertThrow } from "./test/assert"
+
+describe("PrivateKeySigner", () => {
+  // https://eips.ethereum.org/EIPS/eip-155
+  const privateKey = `0x${"46".repeat(32)}`
+  const signer = new PrivateKeySigner(privateKey)
+
+  const eip155Tx: IUnsignedTransaction = {
+    chainId: 1,
+    nonce: "0x9",
+    to: `0x${"35".repeat(20)}`,
+    data: "0x",
+    value: "0xde0b6b3a7640000",
+    gas: "0x5208",
+    gasPrice: "0x4a817c800"
+  }
+
+  const eip155Signed = [
+    "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0",
+    "b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620",
+    "aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83"
+  ].join("")
+
+  const eip1559PrivateKey =
+    "0x5ff2d4e7c68c9103e425fc2a324dd4a05c3eb9092df6b6d267bf34dc54d41133"
+  const eip1559Address = "0x66cc022a17478b94124ee953b5c6709e2afdf126"
+
+  const eip1559Tx: IUnsignedTransaction = {
+    chainId: 123,
+    nonce: "0x2a",
+    to: "0x123456789a123456789a123456789a123456789a",
+    data: "0x12345678",
+    value: "0x123",
+    gas: "0x5208",
+    maxFeePerGas: "0x142",
+    maxPriorityFeePerGas: "0x42",
+    type: "0x2"
+  }
+
+  const eip1559Signed = [
+    "0x02f86a7b2a4282014282520894123456789a123456789a123456789a123456789a8201",
+    "238412345678c080a0f419bdd4bcf20b635e4b3a0a5f56048e348ae8fe492836ccf5160d",
+    "5c27eca847a0762b7f1578f077d88a76f5c7d7c7fbce4028631b62712c01e54d60d49d6b",
+    "bb0c"
+  ].join("")
+
+  it("derives the address of the private key", () => {
+    assert.equal(signer.address, "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f")
+  })
+
+  it("signs legacy transactions with EIP-155 replay protection", async () => {
+    assert.equal(await signer.signTransaction(eip155Tx), eip155Signed)
+  })
+
+  it("signs EIP-1559 transactions", async () => {
+    // eip1559-mask-011110111 of the typed-transactions test cases of ethers.js
+    const eip1559Signer = new PrivateKeySigner(eip1559PrivateKey)
+    assert.equal(eip1559Signer.address, eip1559Address)
+
+    assert.equal(await eip1559Signer.signTransaction(eip1559Tx), eip1559Signed)
+  })
+
+  it("parses signed transactions, and recovers the signer", () => {
+    assert.deepEqual(parseTransaction(eip155Signed), {
+      ...eip155Tx,
+      from: signer.address
+    })
+
+    assert.deepEqual(parseTransaction(eip1559Signed), {
+      ...eip1559Tx,
+      from: eip1559Address
+    })
+  })
+
+  it("rejects invalid private keys", () => {
+    assert.throws(() => new PrivateKeySigner("0x1234"))
+  })
+
+  it("sends signed transactions from EthRPC", async () => {
+    const transport = new MemoryTransport({
+      eth_chainId: () => "0x1",
+      eth_getTransactionCount: () => "0x9",
+      eth_sendRawTransaction: (raw: string) => keccak256Hex(raw)
+    })
+    const rpc = new EthRPC(transport, undefined, { signer })
+
+    assert.equal(await rpc.getSender(), signer.address)
+
+    const { txid } = await rpc.sendTransaction({
+      to: eip155Tx.to,
+      data: "0x",
+      value: eip155Tx.value,
+      gasLimit: 21000,
+      gasPrice: 20e9
+    })
+
+    assert.equal(txid, keccak256Hex(eip155Signed))
+    assert.isFalse(
+      transport.requests.some((req) => req.method === "eth_sendTransaction")
+    )
+  })
+
+  it("sends signed transactions to the node, which mines them", async () => {
+    const node = new MockEthNode({ baseFeePerGas: "0x7" })
+    const rpc = new EthRPC(node, undefined, { signer })
+
+    const legacy = await rpc.sendTransaction({
+      to: eip155Tx.to,
+      data: "0x",
+      value: 1,
+      gasLimit: 21000,
+      gasPrice: 20e9
+    })
+    const eip1559 = await rpc.sendTransaction({
+      to: eip155Tx.to,
+      data: "0x1234",
+      gasLimit: 21000
+    })
+    node.mine()
+
+    for (const { txid } of [legacy, eip1559]) {
+      const receipt = await rpc.getTransactionReceipt(txid)
+      assert.equal(receipt!.from, signer.address)
+      assert.equal(receipt!.status, "0x1")
+    }
+
+    const tx = await rpc.getTransaction(eip1559.txid)
+    assert.equal(tx!.nonce, "0x1")
+    assert.equal(tx!.type, "0x2")
+    assert.equal(tx!.input, "0x1234")
+  })
+
+  it("does not send EIP-2930 transactions", async () => {
+    const rpc = new EthRPC(new MockEthNode(), undefined, { signer })
+
+    await assertThrow(
+      () =>
+        rpc.sendTransaction({
+          to: eip155Tx.to,
+          data: "0x",
+          type: 1
+        }),
+      "unsupported type",
+      (err) => assert.match(err.message, /Unsupported transaction type/)
+    )
+  })
+
+  it("refuses to send from another address", async () => {
+    const rpc = new EthRPC(new MemoryTransport(), undefined, { signer })
+
+    await assertThrow(
+      () =>
+        rpc.sendTransaction({
+          from: privateKeyToAddress(Buffer.alloc(32, 1)),
+          to: eip155Tx.to,
+          data: "0x",
+          gasPrice: 1
+        }),
+      "send from another address",
+      (err) => assert.match(err.message, /Signer cannot sign/)
+    )
+  })
+})
+
+function keccak256Hex(hex: string): string {
+  return `0x${keccak256(Buffer.from(hex.slice(2), "hex")).toString("hex")}`
+}
@@ -0,0 +1,274 @@
+import { ICacheEntry, ICacheStore, LRUCacheStore } from "./CacheStore"
+import { IJSONRPCRequest, IRPCBatchResult, RPCNext } from "./RPCRaw"
+
+export interface IRPCCacheOptions {
+  /**
+   * Where to keep cached results. (default = an LRUCacheStore)
+   */
+  store?: ICacheStore
+
+  /**
+   * Maximum number of entries of the default store. (default = 1000)
+   */
+  maxEntries?: number
+
+  /**
+   * Number of blocks that must be mined on top of a block before its data is
+   * cached. (default = 12)
+   */
+  confirmations?: number
+
+  /**
+   * How long in ms the latest block number is reused before it is fetched
+   * again. (default = 1000)
+   */
+  blockNumberMaxAge?: number
+}
+
+const DEFAULT_CONFIRMATIONS = 12
+const DEFAULT_BLOCK_NUMBER_MAX_AGE = 1000
+
+/**
+ * RPCCache caches results that cannot change once their block is deep enough
+ * in the chain: mined transactions and their receipts, blocks, and `eth_call`
+ * at a block number.
+ *
+ * A result is only cached once its block has `confirmations` blocks on top of
+ * it. If the chain later becomes shorter than that (e.g. after a deep reorg,
+ * or when switching nodes), entries that are no longer deep enough are
+ * evicted instead of served.
+ */
+export class RPCCache {
+  public store: ICacheStore
+
+  private _confirmations: number
+  private _blockNumberMaxAge: number
+  private _blockNumber?: { value: number; fetchedAt: number }
+
+  constructor(opts: IRPCCacheOptions = {}) {
+    this.store = opts.store || new LRUCacheStore(opts.maxEntries)
+
+    this._confirmations =
+      opts.confirmations != null ? opts.confirmations : DEFAULT_CONFIRMATIONS
+    this._blockNumberMaxAge =
+      opts.blockNumberMaxAge != null
+        ? opts.blockNumberMaxAge
+        : DEFAULT_BLOCK_NUMBER_MAX_AGE
+  }
+
+  /**
+   * A middleware that serves RPC calls from the cache.
+   */
+  public async handle(rpcCall: IJSONRPCRequest, next: RPCNext): Promise<any> {
+    if (rpcCall.method === "eth_blockNumber") {
+      const latest = await next(rpcCall)
+      this.observeBlockNumber(Number(latest))
+      return latest
+    }
+
+    const cacheable = cacheableCall(rpcCall)
+    if (cacheable == null) {
+      return next(rpcCall)
+    }
+
+    const entry = await this.lookup(cacheable.key, next, rpcCall)
+    if (entry !== undefined) {
+      return entry.result
+    }
+
+    const result = await next(rpcCall)
+    await this.save(cacheable, result, next, rpcCall)
+    return result
+  }
+
+  /**
+   * Serve the entries of a batch from the cache, and send only the entries
+   * that missed the cache with `sendBatch`.
+   *
+   * @param next makes single calls, to get the latest block number
+   */
+  public async handleBatch(
+    rpcCalls: IJSONRPCRequest[],
+    sendBatch: (rpcCalls: IJSONRPCRequest[]) => Promise<IRPCBatchResult[]>,
+    next: RPCNext
+  ): Promise<IRPCBatchResult[]> {
+    const results: Array<IRPCBatchResult | undefined> = []
+    for (const rpcCall of rpcCalls) {
+      const cacheable = cacheableCall(rpcCall)
+      const entry =
+        cacheable && (await this.lookup(cacheable.key, next, rpcCall))
+      results.push(entry && { result: entry.result })
+    }
+
+    const misses = rpcCalls.filter((_, i) => results[i] === undefined)
+    if (misses.length === 0) {
+      return results as IRPCBatchResult[]
+    }
+
+    const missResults = await sendBatch(misses)
+
+    for (let i = 0; i < misses.length; i++) {
+      const rpcCall = misses[i]
+      const { result, error } = missResults[i]
+      if (error != null) {
+        continue
+      }
+
+      if (rpcCall.method === "eth_blockNumber") {
+        this.observeBlockNumber(Number(result))
+        continue
+      }
+
+      const cacheable = cacheableCall(rpcCall)
+      if (cacheable) {
+        await this.save(cacheable, result, next, rpcCall)
+      }
+    }
+
+    let missIndex = 0
+    return results.map((cached) => cached || missResults[missIndex++])
+  }
+
+  public async clear() {
+    await this.store.clear()
+  }
+
+  /**
+   * The cache entry of a call, if its block is still deep enough.
+   */
+  private async lookup(
+    key: string,
+    next: RPCNext,
+    rpcCall: IJSONRPCRequest
+  ): Promise<ICacheEntry | undefined> {
+    const entry = await this.store.get(key)
+    if (entry === undefined) {
+      return undefined
+    }
+
+    if (await this.isDeep(entry.blockNumber, next, rpcCall)) {
+      return entry
+    }
+
+    await this.store.delete(key)
+    return undefined
+  }
+
+  /**
+   * Cache the result of a call, if its block is deep enough.
+   */
+  private async save(
+    cacheable: ICacheableCall,
+    result: any,
+    next: RPCNext,
+    rpcCall: IJSONRPCRequest
+  ) {
+    const blockNumber =
+      cacheable.blockNumber != null
+        ? cacheable.blockNumber
+        : resultBlockNumber(result)
+
+    if (
+      blockNumber != null &&
+      (await this.isDeep(blockNumber, next, rpcCall))
+    ) {
+      await this.store.set(cacheable.key, { blockNumber, result })
+    }
+  }
+
+  private observeBlockNumber(value: number) {
+    this._blockNumber = { value, fetchedAt: Date.now() }
+  }
+
+  /**
+   * Whether a block has enough confirmations on top of it.
+   */
+  private async isDeep(
+    blockNumber: number,
+    next: RPCNext,
+    rpcCall: IJSONRPCRequest
+  ): Promise<boolean> {
+    const latest = this._blockNumber
+    let latestBlockNumber: number
+
+    if (latest && Date.now() - latest.fetchedAt < this._blockNumberMaxAge) {
+      latestBlockNumber = latest.value
+    } else {
+      latestBlockNumber = Number(
+        await next({ ...rpcCall, method: "eth_blockNumber", params: [] })
+      )
+      this.observeBlockNumber(latestBlockNumber)
+    }
+
+    return latestBlockNumber - blockNumber >= this._confirmations
+  }
+}
+
+const CACHED_METHODS = [
+  "eth_getTransactionByHash",
+  "eth_getTransactionReceipt",
+  "eth_getBlockByNumber",
+  "eth_getBlockByHash",
+  "eth_call"
+]
+
+interface ICacheableCall {
+  key: string
+
+  /**
+   * Block number of the call, if the call is at a block (`eth_call`).
+   */
+  blockNumber?: number
+}
+
+/**
+ * The cache key of a call, or undefined if its result may change.
+ */
+function cacheableCall(rpcCall: IJSONRPCRequest): ICacheableCall | undefined {
+  const { method, params } = rpcCall
+
+  if (!CACHED_METHODS.includes(method)) {
+    return undefined
+  }
+
+  // eth_call is cacheable only at a block number
+  let blockNumber: number | undefined
+  if (method === "eth_call") {
+    blockNumber = quantityParam(params[1])
+    if (blockNumber == null) {
+      return undefined
+    }
+  }
+
+  return { key: `${method}:${JSON.stringify(params)}`, blockNumber }
+}
+
+/**
+ * The block number of a hex quantity param, or undefined for block tags
+ * ("latest", "pending", etc.) and block hashes.
+ */
+function quantityParam(param: any): number | undefined {
+  if (typeof param !== "string" || !/^0x[0-9a-f]{1,16}$/i.test(param)) {
+    return undefined
+  }
+
+  return Number(param)
+}
+
+/**
+ * The block number of a transaction, receipt or block, or undefined if it is
+ * not mined yet.
+ */
+function resultBlockNumber(result: any): number | undefined {
+  if (result == null) {
+    return undefined
+  }
+
+  const blockNumber =
+    result.blockNumber != null ? result.blockNumber : result.number
+  if (blockNumber == null) {
+    return undefined
+  }
+
+  return Number(blockNumber)
+}
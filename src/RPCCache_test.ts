@@ -0,0 +1,124 @@
+import "mocha"
+import { assert } from "chai"
+
+import { LRUCacheStore } from "./CacheStore"
+import { EthRPC } from "./EthRPC"
+import { MemoryTransport } from "./MemoryTransport"
+
+describe("RPCCache", () => {
+  let latestBlock: number
+  let gasPrice: number
+  let transport: MemoryTransport
+  let rpc: EthRPC
+
+  const txid = `0x${"1".repeat(64)}`
+
+  beforeEach(() => {
+    latestBlock = 20
+    gasPrice = 1
+
+    transport = new MemoryTransport({
+      eth_blockNumber: () => `0x${latestBlock.toString(16)}`,
+      eth_getTransactionByHash: (hash: string) => ({
+        hash,
+        from: "0xaa",
+        to: "0xbb",
+        blockNumber: "0x5"
+      }),
+      eth_getTransactionReceipt: (hash: string) => ({
+        transactionHash: hash,
+        blockNumber: "0x12",
+        logs: []
+      }),
+      eth_call: () => "0x2a",
+      eth_gasPrice: () => `0x${gasPrice.toString(16)}`
+    })
+
+    rpc = new EthRPC(transport, undefined, {
+      cache: { confirmations: 10, blockNumberMaxAge: 0 }
+    })
+  })
+
+  function countRequests(method: string): number {
+    return transport.requests.filter((req) => req.method === method).length
+  }
+
+  it("caches transactions with enough confirmations", async () => {
+    await rpc.getTransaction(txid)
+    const tx = await rpc.getTransaction(txid)
+
+    assert.equal(tx!.hash, txid)
+    assert.equal(countRequests("eth_getTransactionByHash"), 1)
+  })
+
+  it("does not cache receipts of recent blocks", async () => {
+    await rpc.getTransactionReceipt(txid)
+    await rpc.getTransactionReceipt(txid)
+
+    assert.equal(countRequests("eth_getTransactionReceipt"), 2)
+
+    // from and to are filled in from the cached transaction
+    assert.equal(countRequests("eth_getTransactionByHash"), 1)
+  })
+
+  it("caches eth_call at a fixed block number, but not at latest", async () => {
+    const req = { to: "0xbb", data: "0x", gasPrice: 1 }
+
+    await rpc.call({ ...req, blockNumber: 1 })
+    await rpc.call({ ...req, blockNumber: 1 })
+    await rpc.call(req)
+    await rpc.call(req)
+
+    assert.equal(countRequests("eth_call"), 3)
+  })
+
+  it("caches eth_call even if the gas price changes", async () => {
+    const req = { to: "0xbb", data: "0x", blockNumber: 1 }
+
+    await rpc.call(req)
+    gasPrice = 2
+    await rpc.call(req)
+
+    assert.equal(countRequests("eth_call"), 1)
+    assert.equal(countRequests("eth_gasPrice"), 0)
+  })
+
+  it("serves entries of batches from the cache", async () => {
+    latestBlock = 30
+    const otherTxid = `0x${"2".repeat(64)}`
+
+    await rpc.getTransactionReceipts([txid])
+    const receipts = await rpc.getTransactionReceipts([txid, otherTxid])
+
+    assert.equal(receipts[0]!.transactionHash, txid)
+    assert.equal(receipts[1]!.transactionHash, otherTxid)
+
+    // only the receipt that missed the cache is sent
+    assert.equal(countRequests("eth_getTransactionReceipt"), 2)
+  })
+
+  it("evicts entries that are no longer deep enough", async () => {
+    await rpc.getTransaction(txid)
+
+    // the chain got shorter, e.g. after a reorg
+    latestBlock = 10
+    await rpc.getTransaction(txid)
+
+    assert.equal(countRequests("eth_getTransactionByHash"), 2)
+  })
+})
+
+describe("LRUCacheStore", () => {
+  it("evicts the least recently used entry", () => {
+    const store = new LRUCacheStore(2)
+
+    store.set("a", { blockNumber: 1, result: "a" })
+    store.set("b", { blockNumber: 1, result: "b" })
+    store.get("a")
+    store.set("c", { blockNumber: 1, result: "c" })
+
+    assert.equal(store.size, 2)
+    assert.isDefined(store.get("a"))
+    assert.isUndefined(store.get("b"))
+  })
+})
@@ -1,53 +1,153 @@
-import axios, {
-  AxiosInstance,
-  AxiosPromise,
-  AxiosRequestConfig,
-  CancelToken,
-  CancelTokenSource
-} from "axios"
-const URL = require("url-parse")
+import axios, { CancelToken, CancelTokenSource } from "axios"
+
+import {
+  AuthorizationDeniedError,
+  IRPCErrorInfo,
+  MethodNotAllowedError,
+  RateLimitedError,
+  RPCError,
+  RPCTimeoutError,
+  UnknownMethodError
+} from "./errors"
+import { HTTPTransport } from "./HTTPTransport"
+import { IRateLimiterOptions, RateLimiter } from "./RateLimiter"
+import { IRPCCacheOptions, RPCCache } from "./RPCCache"
+import { IRetryPolicy, withRetry } from "./retry"
+import { ITransport, ITransportResponse } from "./Transport"
 
 export interface IJSONRPCRequest {
+  jsonrpc?: string
   id: any
   method: string
   params: any[]
   auth?: string
 }
 
-export interface IAuthorization {
-  id: string
-  state: "pending" | "accepted" | "denied" | "consumed"
-  request: IJSONRPCRequest
-  createdAt: string
-}
-
 export interface IRPCCallOption {
+  /**
+   * Cancels the call. Create one with `cancelTokenSource()`.
+   */
   cancelToken?: CancelToken
+
+  /**
+   * Maximum time in ms for the call to complete, including retries.
+   */
+  timeout?: number
+}
+
+/**
+ * A single entry of a JSON-RPC batch request.
+ */
+export interface IRPCBatchCall {
+  method: string
+  params?: any[]
+}
+
+/**
+ * The outcome of a single entry of a JSON-RPC batch request. Exactly one of
+ * `result` or `error` is set.
+ */
+export interface IRPCBatchResult {
+  result?: any
+  error?: Error
+}
+
+/**
+ * Passes a request to the next middleware, or sends it to the node if there
+ * is no more middleware. Resolves to the RPC result.
+ */
+export type RPCNext = (rpcCall: IJSONRPCRequest) => Promise<any>
+
+/**
+ * A middleware intercepts RPC calls. It may inspect or rewrite the request
+ * before passing it to `next`, inspect or rewrite the result, or respond
+ * without calling `next` at all.
+ */
+export type RPCMiddleware = (
+  rpcCall: IJSONRPCRequest,
+  next: RPCNext
+) => Promise<any>
+
+export interface IRPCRawOptions {
+  /**
+   * Retry policy for calls that fail transiently, or `false` to disable
+   * retries. By default, calls that don't send transactions are retried.
+   */
+  retry?: IRetryPolicy | false
+
+  /**
+   * Middleware to install, outermost first.
+   */
+  middleware?: RPCMiddleware[]
+
+  /**
+   * Client-side limits on the rate of requests. Requests exceeding the limits
+   * are queued.
+   */
+  rateLimit?: IRateLimiterOptions
+
+  /**
+   * Cache results that cannot change once they are deep enough in the chain.
+   * The cache runs outside of all middleware, and also serves the entries of
+   * batches.
+   */
+  cache?: IRPCCacheOptions
 }
 
 export class RPCRaw {
   private idNonce: number
-  private _api: AxiosInstance
+  private _transport: ITransport
+  private _retryPolicy: IRetryPolicy
+  private _middleware: RPCMiddleware[]
+  private _rateLimiter?: RateLimiter
+  private _cache?: RPCCache
 
-  constructor(baseURL: string) {
+  /**
+   * @param provider URL of an HTTP RPC service, or a transport.
+   * @param opts RPC client options
+   */
+  constructor(provider: string | ITransport, opts: IRPCRawOptions = {}) {
     this.idNonce = 0
 
-    const url = new URL(baseURL)
+    this._transport =
+      typeof provider === "string" ? new HTTPTransport(provider) : provider
+
+    this._retryPolicy =
+      opts.retry === false ? { maxAttempts: 1 } : { ...opts.retry }
 
-    const config: AxiosRequestConfig = {
-      baseURL: url.origin,
-      // don't throw on non-200 response
-      validateStatus: () => true
+    this._middleware = [...(opts.middleware || [])]
+
+    if (opts.cache) {
+      const cache = new RPCCache(opts.cache)
+      this._cache = cache
+      this._middleware.unshift((rpcCall, next) => cache.handle(rpcCall, next))
     }
 
-    if (url.username !== "" && url.password !== "") {
-      config.auth = {
-        username: url.username,
-        password: url.password
-      }
+    if (opts.rateLimit) {
+      this._rateLimiter = new RateLimiter(opts.rateLimit)
     }
+  }
 
-    this._api = axios.create(config)
+  public get transport(): ITransport {
+    return this._transport
+  }
+
+  /**
+   * The cache of RPC results, if caching is enabled.
+   */
+  public get cache(): RPCCache | undefined {
+    return this._cache
+  }
+
+  /**
+   * Install a middleware. It runs inside of previously installed middleware.
+   *
+   * Middleware intercepts calls made with `rawCall`, but not `rawBatch`. The
+   * cache is the exception, and also serves the entries of batches.
+   */
+  public use(middleware: RPCMiddleware): this {
+    this._middleware.push(middleware)
+    return this
   }
 
   public cancelTokenSource(): CancelTokenSource {
@@ -58,6 +158,57 @@ export class RPCRaw {
     method: string,
     params: any[] = [],
     opts: IRPCCallOption = {}
+  ): Promise<any> {
+    return this.withTimeout(method, params, opts, (cancelToken) =>
+      this.dispatchCall(method, params, { cancelToken })
+    )
+  }
+
+  /**
+   * Send multiple calls in a single JSON-RPC 2.0 batch request. Responses are
+   * matched to calls by id, and returned in the same order as `calls`.
+   *
+   * A failed entry does not fail the whole batch; its error is returned in
+   * place of its result. The promise only rejects if the batch request itself
+   * fails.
+   *
+   * @param calls RPC methods and params to call
+   */
+  public async rawBatch(
+    calls: IRPCBatchCall[],
+    opts: IRPCCallOption = {}
+  ): Promise<IRPCBatchResult[]> {
+    if (calls.length === 0) {
+      return []
+    }
+
+    return this.withTimeout("batch", calls, opts, (cancelToken) =>
+      this.dispatchBatch(calls, { cancelToken })
+    )
+  }
+
+  /**
+   * Run several calls with one deadline. `fn` is given options with a cancel
+   * token, which it should pass to each of its calls. They are canceled when
+   * `opts.timeout` expires (throwing `RPCTimeoutError`), or when
+   * `opts.cancelToken` is canceled.
+   *
+   * @param name what `fn` does, for the timeout error
+   */
+  public async withDeadline<T>(
+    name: string,
+    opts: IRPCCallOption,
+    fn: (opts: IRPCCallOption) => Promise<T>
+  ): Promise<T> {
+    return this.withTimeout(name, [], opts, (cancelToken) =>
+      fn({ cancelToken })
+    )
+  }
+
+  private async dispatchCall(
+    method: string,
+    params: any[],
+    opts: IRPCCallOption
   ): Promise<any> {
     const rpcCall: IJSONRPCRequest = {
       method,
@@ -65,39 +216,99 @@ export class RPCRaw {
       id: this.idNonce++
     }
 
-    let res = await this.makeRPCCall(rpcCall, opts)
+    return this.dispatch(0, opts)(rpcCall)
+  }
+
+  /**
+   * Pass a call to the middleware at index `i`, or send it to the node after
+   * the last middleware.
+   */
+  private dispatch(i: number, opts: IRPCCallOption): RPCNext {
+    return (req) => {
+      if (i < this._middleware.length) {
+        return this._middleware[i](req, this.dispatch(i + 1, opts))
+      }
 
-    if (res.status === 402) {
-      const auth: IAuthorization = res.data
-      res = await this.authCall(auth.id, rpcCall, opts)
+      return withRetry(
+        [req.method],
+        () => this.limit([req.method], () => this.callOnce(req, opts)),
+        this._retryPolicy,
+        opts.cancelToken
+      )
+    }
+  }
+
+  private async dispatchBatch(
+    calls: IRPCBatchCall[],
+    opts: IRPCCallOption
+  ): Promise<IRPCBatchResult[]> {
+    const rpcCalls: IJSONRPCRequest[] = calls.map(
+      ({ method, params = [] }) => ({
+        jsonrpc: "2.0",
+        method,
+        params,
+        id: this.idNonce++
+      })
+    )
+
+    const send = (batch: IJSONRPCRequest[]) => {
+      const methods = batch.map((rpcCall) => rpcCall.method)
+
+      return withRetry(
+        methods,
+        () => this.limit(methods, () => this.batchOnce(batch, opts)),
+        this._retryPolicy,
+        opts.cancelToken
+      )
     }
 
+    if (this._cache) {
+      // the cache is the outermost middleware, so it looks up the latest
+      // block number through the rest of the middleware
+      return this._cache.handleBatch(rpcCalls, send, this.dispatch(1, opts))
+    }
+
+    return send(rpcCalls)
+  }
+
+  private async callOnce(
+    rpcCall: IJSONRPCRequest,
+    opts: IRPCCallOption
+  ): Promise<any> {
+    const { method, params } = rpcCall
+    const res = await this.makeRPCCall(rpcCall, opts)
+
+    const info: IRPCErrorInfo = { method, params, httpStatus: res.status }
+
     if (res.status === 401) {
       // body is empty
-      throw new Error(await res.statusText)
+      throw new AuthorizationDeniedError(res.statusText, info)
     }
 
     // 404 if method doesn't exist
     if (res.status === 404) {
-      throw new Error(`unknown method: ${method}`)
+      throw new UnknownMethodError(info)
     }
 
     if (res.status === 405) {
-      throw new Error(`not allowed method: ${method}`)
+      throw new MethodNotAllowedError(info)
+    }
+
+    if (res.status === 429) {
+      throw new RateLimitedError(info, retryAfter(res))
     }
 
     if (res.status !== 200 || res.data.error != null) {
       if (res.headers["content-type"] !== "application/json") {
-        throw new Error(`${res.status} ${res.statusText}\n${res.data}`)
+        throw new RPCError(`${res.status} ${res.statusText}\n${res.data}`, info)
       }
 
       const eresult = res.data
 
       if (eresult.error) {
-        const { code, message } = eresult.error
-        throw new Error(`${method}(${params}): [${code}] ${message}`)
+        throw this.responseError(rpcCall, eresult.error, res.status)
       } else {
-        throw new Error(String(eresult))
+        throw new RPCError(String(eresult), info)
       }
     }
 
@@ -105,41 +316,152 @@ export class RPCRaw {
     return result
   }
 
-  private makeRPCCall(
-    rpcCall: IJSONRPCRequest,
-    opts: IRPCCallOption = {}
-  ): AxiosPromise<any> {
-    return this._api.post("/", rpcCall, opts)
+  private async batchOnce(
+    rpcCalls: IJSONRPCRequest[],
+    opts: IRPCCallOption
+  ): Promise<IRPCBatchResult[]> {
+    const res = await this.makeRPCCall(rpcCalls, opts)
+
+    const info: IRPCErrorInfo = {
+      method: "batch",
+      params: rpcCalls,
+      httpStatus: res.status
+    }
+
+    if (res.status === 401) {
+      throw new AuthorizationDeniedError(res.statusText, info)
+    }
+
+    if (res.status === 429) {
+      throw new RateLimitedError(info, retryAfter(res))
+    }
+
+    if (res.status !== 200 || !Array.isArray(res.data)) {
+      if (res.data && res.data.error) {
+        const { code, message, data } = res.data.error
+        throw new RPCError(`batch: [${code}] ${message}`, {
+          ...info,
+          code,
+          data
+        })
+      }
+
+      throw new RPCError(`${res.status} ${res.statusText}\n${res.data}`, info)
+    }
+
+    const responses: { [id: string]: any } = {}
+    for (const response of res.data) {
+      responses[response.id] = response
+    }
+
+    return rpcCalls.map((rpcCall) => {
+      const response = responses[rpcCall.id]
+
+      if (response == null) {
+        return {
+          error: new RPCError(`${rpcCall.method}: missing response in batch`, {
+            ...info,
+            method: rpcCall.method,
+            params: rpcCall.params
+          })
+        }
+      }
+
+      if (response.error != null) {
+        return {
+          error: this.responseError(rpcCall, response.error, res.status)
+        }
+      }
+
+      return { result: response.result }
+    })
   }
 
-  private async authCall(
-    authID: string,
-    rpcCall: IJSONRPCRequest,
-    opts: IRPCCallOption = {}
-  ): Promise<any> {
-    // long-poll an authorization until its state changes
-    const res = await this._api.get(`/api/authorizations/${authID}/onchange`)
+  /**
+   * Invoke `fn` with a cancel token that cancels the call when `opts.timeout`
+   * expires, or when `opts.cancelToken` is canceled. The call is abandoned
+   * even if the transport (or a middleware) ignores the cancel token.
+   */
+  private async withTimeout<T>(
+    method: string,
+    params: any[],
+    opts: IRPCCallOption,
+    fn: (cancelToken?: CancelToken) => Promise<T>
+  ): Promise<T> {
+    const { cancelToken, timeout } = opts
+    if (!timeout && !cancelToken) {
+      return fn()
+    }
 
-    const { data } = res
+    const source = this.cancelTokenSource()
 
-    if (res.status !== 200) {
-      throw new Error(data.message)
+    if (cancelToken) {
+      cancelToken.promise.then((cancel) => source.cancel(cancel.message))
     }
 
-    const auth: IAuthorization = data
+    let timedOut = false
+    let timer: any
+    if (timeout) {
+      timer = setTimeout(() => {
+        timedOut = true
+        source.cancel(`${method}: timed out after ${timeout}ms`)
+      }, timeout)
+    }
 
-    if (auth.state === "denied") {
-      throw new Error(`Authorization denied: ${authID}`)
+    const canceled = source.token.promise.then((cancel) => {
+      throw cancel
+    })
+
+    try {
+      return await Promise.race([fn(source.token), canceled])
+    } catch (err) {
+      if (timedOut) {
+        throw new RPCTimeoutError(timeout!, { method, params })
+      }
+
+      throw err
+    } finally {
+      clearTimeout(timer)
     }
+  }
 
-    if (auth.state === "accepted") {
-      return this.makeRPCCall(
-        {
-          ...rpcCall,
-          auth: auth.id
-        },
-        opts
-      )
+  private limit<T>(methods: string[], fn: () => Promise<T>): Promise<T> {
+    if (!this._rateLimiter) {
+      return fn()
     }
+
+    return this._rateLimiter.schedule(methods, fn)
   }
+
+  private makeRPCCall(
+    rpcCall: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    return this._transport.request(rpcCall, opts)
+  }
+
+  private responseError(
+    rpcCall: IJSONRPCRequest,
+    error: { code: number; message: string; data?: any },
+    httpStatus: number
+  ): RPCError {
+    const { method, params } = rpcCall
+    const { code, message, data } = error
+    const info = { method, params, code, data, httpStatus }
+
+    // JSON-RPC "Method not found"
+    if (code === -32601) {
+      return new UnknownMethodError(info)
+    }
+
+    return new RPCError(`${method}(${params}): [${code}] ${message}`, info)
+  }
+}
+
+/**
+ * Parse the Retry-After header (in seconds) of a throttled response.
+ */
+function retryAfter(res: ITransportResponse): number | undefined {
+  const value = Number(res.headers["retry-after"])
+  return isNaN(value) ? undefined : value
 }
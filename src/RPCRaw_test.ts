@@ -0,0 +1,331 @@
+import "mocha"
+import { assert } from "chai"
+
+import { RPCRaw } from "./RPCRaw"
+import { MemoryTransport } from "./MemoryTransport"
+import axios from "axios"
+
+import {
+  RateLimitedError,
+  RPCError,
+  RPCTimeoutError,
+  UnknownMethodError
+} from "./errors"
+import { IJSONRPCRequest } from "./RPCRaw"
+import { ITransport, jsonResponse } from "./Transport"
+import { assertThrow } from "./test/assert"
+
+describe("RPCRaw", () => {
+  const transport = new MemoryTransport({
+    eth_blockNumber: () => "0x10",
+    eth_getBalance: (address: string) => {
+      if (address === "0x00") {
+        throw new Error("invalid address")
+      }
+
+      return "0x0"
+    }
+  })
+
+  const rpc = new RPCRaw(transport)
+
+  describe("#rawCall", () => {
+    it("returns the result", async () => {
+      assert.equal(await rpc.rawCall("eth_blockNumber"), "0x10")
+    })
+
+    it("throws error if method is not found", async () => {
+      await assertThrow(
+        async () => {
+          return rpc.rawCall("unknown-method")
+        },
+        "unknown method",
+        (err) => {
+          assert.instanceOf(err, UnknownMethodError)
+          assert.equal(err.method, "unknown-method")
+        }
+      )
+    })
+
+    it("throws RPCError with the JSON-RPC error details", async () => {
+      await assertThrow(
+        async () => {
+          return rpc.rawCall("eth_getBalance", ["0x00"])
+        },
+        "invalid params",
+        (err) => {
+          assert.instanceOf(err, RPCError)
+          assert.equal(err.code, -32603)
+          assert.equal(err.method, "eth_getBalance")
+          assert.deepEqual(err.params, ["0x00"])
+          assert.equal(err.httpStatus, 200)
+        }
+      )
+    })
+  })
+
+  describe("#rawBatch", () => {
+    it("sends calls as a single request", async () => {
+      const sent = transport.requests.length
+
+      const results = await rpc.rawBatch([
+        { method: "eth_blockNumber" },
+        { method: "eth_getBalance", params: ["0x01"] }
+      ])
+
+      assert.deepEqual(results, [{ result: "0x10" }, { result: "0x0" }])
+      assert.equal(transport.requests.length - sent, 2)
+      assert.equal(transport.requests[sent].jsonrpc, "2.0")
+    })
+
+    it("returns errors in place of results", async () => {
+      const [unknown, balance, blockNumber] = await rpc.rawBatch([
+        { method: "unknown-method" },
+        { method: "eth_getBalance", params: ["0x00"] },
+        { method: "eth_blockNumber" }
+      ])
+
+      assert.instanceOf(unknown.error, Error)
+      assert.instanceOf(balance.error, Error)
+      assert.include(balance.error!.message, "invalid address")
+      assert.equal(blockNumber.result, "0x10")
+    })
+  })
+
+  describe("retry", () => {
+    // fails with 502 `failures` times, then succeeds
+    function flakyTransport(failures: number): ITransport & { calls: number } {
+      return {
+        calls: 0,
+        async request(rpcCall: IJSONRPCRequest) {
+          this.calls++
+          if (this.calls <= failures) {
+            return {
+              status: 502,
+              statusText: "Bad Gateway",
+              headers: { "content-type": "text/html" },
+              data: "<html></html>"
+            }
+          }
+
+          return jsonResponse({ id: rpcCall.id, result: "0x1" })
+        }
+      }
+    }
+
+    const retry = { initialDelay: 1 }
+
+    it("retries read-only calls that fail transiently", async () => {
+      const flaky = flakyTransport(2)
+      const flakyRPC = new RPCRaw(flaky, { retry })
+
+      assert.equal(await flakyRPC.rawCall("eth_blockNumber"), "0x1")
+      assert.equal(flaky.calls, 3)
+    })
+
+    it("gives up after max attempts", async () => {
+      const flaky = flakyTransport(5)
+      const flakyRPC = new RPCRaw(flaky, { retry })
+
+      await assertThrow(
+        async () => flakyRPC.rawCall("eth_blockNumber"),
+        "too many failures",
+        (err) => {
+          assert.equal(err.httpStatus, 502)
+        }
+      )
+      assert.equal(flaky.calls, 3)
+    })
+
+    it("does not retry sending transactions by default", async () => {
+      const flaky = flakyTransport(1)
+      const flakyRPC = new RPCRaw(flaky, { retry })
+
+      await assertThrow(async () => flakyRPC.rawCall("eth_sendTransaction"))
+      assert.equal(flaky.calls, 1)
+    })
+
+    it("retries throttled calls, even if they send transactions", async () => {
+      let calls = 0
+      const throttled = new RPCRaw(
+        {
+          async request(rpcCall: IJSONRPCRequest) {
+            calls++
+            if (calls === 1) {
+              return {
+                status: 429,
+                statusText: "Too Many Requests",
+                headers: { "retry-after": "0" },
+                data: ""
+              }
+            }
+
+            return jsonResponse({ id: rpcCall.id, result: "0x1" })
+          }
+        },
+        { retry }
+      )
+
+      assert.equal(await throttled.rawCall("eth_sendTransaction"), "0x1")
+      assert.equal(calls, 2)
+    })
+
+    it("throws RateLimitedError if throttled too many times", async () => {
+      const throttled = new RPCRaw(
+        {
+          async request() {
+            return {
+              status: 429,
+              statusText: "Too Many Requests",
+              headers: {},
+              data: ""
+            }
+          }
+        },
+        { retry }
+      )
+
+      await assertThrow(
+        async () => throttled.rawCall("eth_blockNumber"),
+        "rate limited",
+        (err) => {
+          assert.instanceOf(err, RateLimitedError)
+        }
+      )
+    })
+
+    it("retries sending transactions if opted in", async () => {
+      const flaky = flakyTransport(1)
+      const flakyRPC = new RPCRaw(flaky, {
+        retry: { ...retry, retrySend: true }
+      })
+
+      assert.equal(await flakyRPC.rawCall("eth_sendTransaction"), "0x1")
+      assert.equal(flaky.calls, 2)
+    })
+
+    it("does not retry methods that change state on the node", async () => {
+      const flaky = flakyTransport(1)
+      const flakyRPC = new RPCRaw(flaky, { retry })
+
+      await assertThrow(async () => flakyRPC.rawCall("eth_newFilter", [{}]))
+      assert.equal(flaky.calls, 1)
+    })
+
+    it("retries network errors", async () => {
+      let calls = 0
+      const resetRPC = new RPCRaw(
+        {
+          async request(rpcCall: IJSONRPCRequest) {
+            calls++
+            if (calls === 1) {
+              throw Object.assign(new Error("socket hang up"), {
+                code: "ECONNRESET"
+              })
+            }
+
+            return jsonResponse({ id: rpcCall.id, result: "0x1" })
+          }
+        },
+        { retry }
+      )
+
+      assert.equal(await resetRPC.rawCall("eth_blockNumber"), "0x1")
+      assert.equal(calls, 2)
+    })
+
+    it("does not retry programming errors", async () => {
+      let calls = 0
+      const buggyRPC = new RPCRaw(
+        {
+          async request() {
+            calls++
+            throw new TypeError("cannot read property of undefined")
+          }
+        },
+        { retry }
+      )
+
+      await assertThrow(
+        async () => buggyRPC.rawCall("eth_blockNumber"),
+        "type error",
+        (err) => assert.instanceOf(err, TypeError)
+      )
+      assert.equal(calls, 1)
+    })
+  })
+
+  describe("#use", () => {
+    it("runs middleware in order around the call", async () => {
+      const trace: string[] = []
+
+      const rpcWithMiddleware = new RPCRaw(transport, {
+        middleware: [
+          async (rpcCall, next) => {
+            trace.push(`a:${rpcCall.method}`)
+            const result = await next(rpcCall)
+            trace.push(`a:${result}`)
+            return result
+          }
+        ]
+      })
+
+      rpcWithMiddleware.use(async (rpcCall, next) => {
+        trace.push(`b:${rpcCall.method}`)
+        return next({ ...rpcCall, method: "eth_blockNumber" })
+      })
+
+      assert.equal(await rpcWithMiddleware.rawCall("eth_foo"), "0x10")
+      assert.deepEqual(trace, ["a:eth_foo", "b:eth_foo", "a:0x10"])
+    })
+
+    it("can respond without calling the node", async () => {
+      const sent = transport.requests.length
+
+      const rpcWithMiddleware = new RPCRaw(transport).use(async () => "0x2a")
+
+      assert.equal(await rpcWithMiddleware.rawCall("eth_blockNumber"), "0x2a")
+      assert.equal(transport.requests.length, sent)
+    })
+  })
+
+  describe("timeout and cancellation", () => {
+    // a node that never responds
+    const stuck: ITransport = {
+      request: () => new Promise(() => undefined)
+    }
+
+    const stuckRPC = new RPCRaw(stuck, { retry: false })
+
+    it("throws RPCTimeoutError if the call takes too long", async () => {
+      await assertThrow(
+        async () => {
+          return stuckRPC.rawCall("eth_blockNumber", [], { timeout: 10 })
+        },
+        "call timed out",
+        (err) => {
+          assert.instanceOf(err, RPCTimeoutError)
+          assert.equal(err.method, "eth_blockNumber")
+          assert.equal(err.timeout, 10)
+        }
+      )
+    })
+
+    it("stops waiting for the call if canceled", async () => {
+      const source = stuckRPC.cancelTokenSource()
+      setTimeout(() => source.cancel("stop"), 10)
+
+      await assertThrow(
+        async () => {
+          return stuckRPC.rawCall("eth_blockNumber", [], {
+            cancelToken: source.token
+          })
+        },
+        "call canceled",
+        (err) => {
+          assert.isTrue(axios.isCancel(err))
+        }
+      )
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Limits on the rate of requests.
+ */
+export interface IRateLimit {
+  /**
+   * Maximum number of requests in flight.
+   */
+  maxConcurrent?: number
+
+  /**
+   * Maximum number of requests started within any one second.
+   */
+  requestsPerSecond?: number
+}
+
+export interface IRateLimiterOptions extends IRateLimit {
+  /**
+   * Additional limits for specific RPC methods.
+   */
+  methods?: { [method: string]: IRateLimit }
+}
+
+interface IBucket {
+  limit: IRateLimit
+  inflight: number
+  // start times of requests within the last second
+  starts: number[]
+}
+
+interface IQueuedTask {
+  buckets: IBucket[]
+  start: () => void
+}
+
+const WINDOW = 1000
+
+/**
+ * RateLimiter queues requests so that they stay within the configured limits.
+ * Queued requests are started in order, except that a request blocked only by
+ * its method's limits doesn't hold up requests of other methods.
+ */
+export class RateLimiter {
+  private _global: IBucket
+  private _methods: { [method: string]: IBucket } = {}
+  private _queue: IQueuedTask[] = []
+  private _timer?: any
+
+  constructor(opts: IRateLimiterOptions = {}) {
+    const { methods = {}, ...globalLimit } = opts
+
+    this._global = newBucket(globalLimit)
+
+    for (const method of Object.keys(methods)) {
+      this._methods[method] = newBucket(methods[method])
+    }
+  }
+
+  /**
+   * Invoke `fn` once the limits allow it.
+   *
+   * @param methods RPC methods of the request (more than one for a batch)
+   * @param fn makes the request
+   */
+  public schedule<T>(methods: string[], fn: () => Promise<T>): Promise<T> {
+    const buckets = [this._global]
+    for (const method of new Set(methods)) {
+      const bucket = this._methods[method]
+      if (bucket) {
+        buckets.push(bucket)
+      }
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const start = () => {
+        fn()
+          .then(resolve, reject)
+          .then(() => {
+            for (const bucket of buckets) {
+              bucket.inflight--
+            }
+
+            this.drain()
+          })
+      }
+
+      this._queue.push({ buckets, start })
+      this.drain()
+    })
+  }
+
+  /**
+   * Number of requests waiting to be started.
+   */
+  public get queued(): number {
+    return this._queue.length
+  }
+
+  private drain() {
+    const now = Date.now()
+
+    // a request blocked by a bucket blocks the requests queued after it in
+    // the same bucket
+    const blocked: Set<IBucket> = new Set()
+
+    this._queue = this._queue.filter((task) => {
+      const full = task.buckets.filter(
+        (bucket) => blocked.has(bucket) || !hasCapacity(bucket, now)
+      )
+
+      if (full.length > 0) {
+        for (const bucket of full) {
+          blocked.add(bucket)
+        }
+        return true
+      }
+
+      for (const bucket of task.buckets) {
+        bucket.inflight++
+        bucket.starts.push(now)
+      }
+
+      task.start()
+      return false
+    })
+
+    this.scheduleDrain(now)
+  }
+
+  /**
+   * Drain the queue again when a requests-per-second window frees up.
+   */
+  private scheduleDrain(now: number) {
+    if (this._timer || this._queue.length === 0) {
+      return
+    }
+
+    let wait = Infinity
+    for (const task of this._queue) {
+      for (const bucket of task.buckets) {
+        const { requestsPerSecond } = bucket.limit
+        if (requestsPerSecond != null && bucket.starts.length > 0) {
+          wait = Math.min(wait, bucket.starts[0] + WINDOW - now)
+        }
+      }
+    }
+
+    if (wait === Infinity) {
+      // waiting for requests in flight to finish
+      return
+    }
+
+    this._timer = setTimeout(() => {
+      this._timer = undefined
+      this.drain()
+    }, Math.max(wait, 0))
+  }
+}
+
+function newBucket(limit: IRateLimit): IBucket {
+  return { limit, inflight: 0, starts: [] }
+}
+
+function hasCapacity(bucket: IBucket, now: number): boolean {
+  const { maxConcurrent, requestsPerSecond } = bucket.limit
+
+  while (bucket.starts.length > 0 && bucket.starts[0] <= now - WINDOW) {
+    bucket.starts.shift()
+  }
+
+  if (maxConcurrent != null && bucket.inflight >= maxConcurrent) {
+    return false
+  }
+
+  if (requestsPerSecond != null && bucket.starts.length >= requestsPerSecond) {
+    return false
+  }
+
+  return true
+}
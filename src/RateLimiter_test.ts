@@ -0,0 +1,66 @@
+import "mocha"
+import { assert } from "chai"
+
+import { RateLimiter } from "./RateLimiter"
+import { sleep } from "./sleep"
+
+describe("RateLimiter", () => {
+  // a request that tracks how many requests are in flight
+  function tracker() {
+    const stats = { inflight: 0, maxInflight: 0, order: [] as string[] }
+
+    const request = (name: string, ms = 5) => async () => {
+      stats.inflight++
+      stats.maxInflight = Math.max(stats.maxInflight, stats.inflight)
+      stats.order.push(name)
+      await sleep(ms)
+      stats.inflight--
+      return name
+    }
+
+    return { stats, request }
+  }
+
+  it("limits the number of requests in flight", async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 })
+    const { stats, request } = tracker()
+
+    const results = await Promise.all(
+      ["a", "b", "c", "d", "e"].map((name) =>
+        limiter.schedule(["eth_call"], request(name))
+      )
+    )
+
+    assert.deepEqual(results, ["a", "b", "c", "d", "e"])
+    assert.equal(stats.maxInflight, 2)
+  })
+
+  it("doesn't hold up other methods for a method's limit", async () => {
+    const limiter = new RateLimiter({
+      methods: { eth_getLogs: { maxConcurrent: 1 } }
+    })
+    const { stats, request } = tracker()
+
+    await Promise.all([
+      limiter.schedule(["eth_getLogs"], request("logs1", 20)),
+      limiter.schedule(["eth_getLogs"], request("logs2")),
+      limiter.schedule(["eth_blockNumber"], request("blockNumber"))
+    ])
+
+    assert.deepEqual(stats.order, ["logs1", "blockNumber", "logs2"])
+  })
+
+  it("limits the number of requests per second", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 })
+    const { request } = tracker()
+
+    const start = Date.now()
+    await Promise.all(
+      ["a", "b", "c"].map((name) =>
+        limiter.schedule(["eth_call"], request(name, 0))
+      )
+    )
+
+    assert.isAtLeast(Date.now() - start, 900)
+  })
+})
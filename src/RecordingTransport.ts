@@ -0,0 +1,105 @@
+import * as fs from "fs"
+
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+import { ITransport, ITransportResponse } from "./Transport"
+
+/**
+ * A JSON-RPC request without its id.
+ */
+export interface IRecordedRequest {
+  method: string
+  params: any[]
+}
+
+/**
+ * A recorded request (single or batch), and the node's response to it.
+ * JSON-RPC ids are stripped, since they vary between runs.
+ */
+export interface IRPCExchange {
+  request: IRecordedRequest | IRecordedRequest[]
+  response: ITransportResponse
+}
+
+/**
+ * RPC exchanges saved by `RecordingTransport`, to be served by
+ * `ReplayTransport`.
+ */
+export interface IRPCFixture {
+  exchanges: IRPCExchange[]
+}
+
+/**
+ * RecordingTransport passes requests through to another transport, and
+ * records every exchange, so it can be saved as a fixture for
+ * `ReplayTransport`.
+ */
+export class RecordingTransport implements ITransport {
+  public exchanges: IRPCExchange[] = []
+
+  constructor(private _transport: ITransport) {}
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    const res = await this._transport.request(payload, opts)
+
+    this.exchanges.push({
+      request: Array.isArray(payload)
+        ? payload.map(stripRequestID)
+        : stripRequestID(payload),
+      response: {
+        status: res.status,
+        statusText: res.statusText,
+        headers: { ...res.headers },
+        data:
+          Array.isArray(payload) && Array.isArray(res.data)
+            ? orderResponses(payload, res.data).map(stripResponseID)
+            : stripResponseID(res.data)
+      }
+    })
+
+    return res
+  }
+
+  public toJSON(): IRPCFixture {
+    return { exchanges: this.exchanges }
+  }
+
+  /**
+   * Write the recorded exchanges to a fixture file.
+   */
+  public save(path: string) {
+    fs.writeFileSync(path, JSON.stringify(this.toJSON(), null, 2))
+  }
+
+  public close() {
+    if (this._transport.close) {
+      this._transport.close()
+    }
+  }
+}
+
+function stripRequestID({ method, params }: IJSONRPCRequest): IRecordedRequest {
+  return { method, params }
+}
+
+/**
+ * Order the responses of a batch like its requests, so they can be replayed
+ * without ids.
+ */
+function orderResponses(payload: IJSONRPCRequest[], responses: any[]): any[] {
+  return payload.map(
+    (rpcCall) =>
+      responses.find((response) => response.id === rpcCall.id) || null
+  )
+}
+
+function stripResponseID(data: any): any {
+  if (data == null || typeof data !== "object") {
+    return data
+  }
+
+  const { id, ...rest } = data
+  return rest
+}
@@ -0,0 +1,82 @@
+import * as fs from "fs"
+
+import { IRecordedRequest, IRPCFixture } from "./RecordingTransport"
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+import { ITransport, ITransportResponse } from "./Transport"
+
+/**
+ * ReplayTransport serves responses recorded by `RecordingTransport`, without
+ * a node.
+ *
+ * Requests are matched to recorded requests by method and params. Repeated
+ * requests (e.g. polling `eth_blockNumber`) get the recorded responses in
+ * order; once those run out, the last one is served again.
+ */
+export class ReplayTransport implements ITransport {
+  private _responses: Map<string, ITransportResponse[]> = new Map()
+
+  /**
+   * @param fixture recorded exchanges, or the path of a fixture file
+   */
+  constructor(fixture: IRPCFixture | string) {
+    if (typeof fixture === "string") {
+      fixture = JSON.parse(fs.readFileSync(fixture, "utf8")) as IRPCFixture
+    }
+
+    for (const { request, response } of fixture.exchanges) {
+      const key = requestKey(request)
+      const responses = this._responses.get(key) || []
+      responses.push(response)
+      this._responses.set(key, responses)
+    }
+  }
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    const key = requestKey(payload)
+    const responses = this._responses.get(key)
+
+    if (responses == null) {
+      throw new Error(`No recorded response for request: ${key}`)
+    }
+
+    const response = responses.length > 1 ? responses.shift()! : responses[0]
+
+    return {
+      ...response,
+      data: restoreIDs(payload, response.data)
+    }
+  }
+}
+
+function requestKey(request: IRecordedRequest | IRecordedRequest[]): string {
+  const strip = ({ method, params }: IRecordedRequest) => ({ method, params })
+
+  return JSON.stringify(
+    Array.isArray(request) ? request.map(strip) : strip(request)
+  )
+}
+
+/**
+ * Give recorded responses the ids of the requests being replayed.
+ */
+function restoreIDs(
+  payload: IJSONRPCRequest | IJSONRPCRequest[],
+  data: any
+): any {
+  if (Array.isArray(payload)) {
+    if (!Array.isArray(data)) {
+      return data
+    }
+
+    return data.map((response, i) => ({ ...response, id: payload[i].id }))
+  }
+
+  if (data == null || typeof data !== "object") {
+    return data
+  }
+
+  return { ...data, id: payload.id }
+}
@@ -0,0 +1,70 @@
+import "mocha"
+import { assert } from "chai"
+
+import { EthRPC } from "./EthRPC"
+import { MemoryTransport } from "./MemoryTransport"
+import { RecordingTransport } from "./RecordingTransport"
+import { ReplayTransport } from "./ReplayTransport"
+import { assertThrow } from "./test/assert"
+
+describe("ReplayTransport", () => {
+  let blockNumber = 0
+
+  const recorder = new RecordingTransport(
+    new MemoryTransport({
+      eth_blockNumber: () => `0x${(++blockNumber).toString(16)}`,
+      eth_getBalance: (address: string) => (address === "0x01" ? "0x64" : "0x0")
+    })
+  )
+
+  before(async () => {
+    const rpc = new EthRPC(recorder)
+
+    await rpc.getBlockNumber()
+    await rpc.getBlockNumber()
+    await rpc.getBalance("0x01")
+    await rpc.rawBatch([
+      { method: "eth_getBalance", params: ["0x02", "latest"] },
+      { method: "unknown-method" }
+    ])
+  })
+
+  it("records exchanges without ids", () => {
+    assert.equal(recorder.exchanges.length, 4)
+    assert.deepEqual(recorder.exchanges[0].request, {
+      method: "eth_blockNumber",
+      params: []
+    })
+    assert.deepEqual(recorder.exchanges[0].response.data, {
+      jsonrpc: "2.0",
+      result: "0x1"
+    })
+  })
+
+  it("replays recorded responses in order", async () => {
+    const fixture = JSON.parse(JSON.stringify(recorder.toJSON()))
+    const rpc = new EthRPC(new ReplayTransport(fixture))
+
+    assert.equal(await rpc.getBlockNumber(), 1)
+    assert.equal(await rpc.getBlockNumber(), 2)
+    // the last response is repeated
+    assert.equal(await rpc.getBlockNumber(), 2)
+
+    assert.equal(await rpc.getBalance("0x01"), "0x64")
+
+    const [balance, unknown] = await rpc.rawBatch([
+      { method: "eth_getBalance", params: ["0x02", "latest"] },
+      { method: "unknown-method" }
+    ])
+    assert.equal(balance.result, "0x0")
+    assert.instanceOf(unknown.error, Error)
+  })
+
+  it("throws if a request was not recorded", async () => {
+    const rpc = new EthRPC(new ReplayTransport(recorder.toJSON()), undefined, {
+      retry: false
+    })
+
+    await assertThrow(async () => rpc.getBalance("0x03"))
+  })
+})
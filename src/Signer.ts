@@ -0,0 +1,254 @@
+import { keccak256, recoverAddress } from "./crypto"
+import {
+  rlpBytes,
+  rlpDecode,
+  rlpEncode,
+  rlpQuantity,
+  RLPInput
+} from "./rlp"
+
+/**
+ * A transaction to sign. Quantities are hex strings.
+ */
+export interface IUnsignedTransaction {
+  /**
+   * The address to sign with, for signers of more than one address.
+   */
+  from?: string
+
+  chainId: number
+  nonce: string
+  to: string
+  data: string
+  value?: string
+  gas: string
+
+  /**
+   * Gas price of legacy transactions.
+   */
+  gasPrice?: string
+
+  /**
+   * Fees of EIP-1559 transactions.
+   */
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+
+  /**
+   * "0x2" for EIP-1559 transactions, legacy otherwise.
+   */
+  type?: string
+}
+
+/**
+ * A secp256k1 signature.
+ */
+export interface ISignature {
+  r: string
+  s: string
+
+  /**
+   * 0 or 1, the parity of the y coordinate of the curve point R.
+   */
+  recoveryParam: number
+}
+
+/**
+ * A signer signs transactions locally, so that they can be sent with
+ * `eth_sendRawTransaction` instead of being signed by the node's wallet.
+ */
+export interface ISigner {
+  /**
+   * The address that signs transactions.
+   */
+  getAddress(): Promise<string>
+
+  /**
+   * All addresses that the signer can sign transactions from, if there are
+   * more than one.
+   */
+  getAddresses?(): Promise<string[]>
+
+  /**
+   * Sign a transaction.
+   *
+   * @returns the signed transaction, serialized as hex
+   */
+  signTransaction(tx: IUnsignedTransaction): Promise<string>
+}
+
+/**
+ * Serialize a transaction: legacy transactions with EIP-155 replay protection,
+ * or typed EIP-1559 transactions.
+ *
+ * @param sig the signature, or nothing to serialize the payload to sign
+ */
+export function serializeTransaction(
+  tx: IUnsignedTransaction,
+  sig?: ISignature
+): Buffer {
+  const type = tx.type == null ? 0 : Number(tx.type)
+
+  if (type === 2) {
+    const fields: RLPInput[] = [
+      rlpQuantity(tx.chainId.toString(16)),
+      rlpQuantity(tx.nonce),
+      rlpQuantity(tx.maxPriorityFeePerGas),
+      rlpQuantity(tx.maxFeePerGas),
+      rlpQuantity(tx.gas),
+      rlpBytes(tx.to),
+      rlpQuantity(tx.value),
+      rlpBytes(tx.data),
+      // access list
+      []
+    ]
+
+    if (sig) {
+      fields.push(
+        rlpQuantity(sig.recoveryParam.toString(16)),
+        rlpQuantity(sig.r),
+        rlpQuantity(sig.s)
+      )
+    }
+
+    return Buffer.concat([Buffer.from([2]), rlpEncode(fields)])
+  }
+
+  if (type !== 0) {
+    throw new Error(`Unsupported transaction type: ${tx.type}`)
+  }
+
+  const legacyFields: RLPInput[] = [
+    rlpQuantity(tx.nonce),
+    rlpQuantity(tx.gasPrice),
+    rlpQuantity(tx.gas),
+    rlpBytes(tx.to),
+    rlpQuantity(tx.value),
+    rlpBytes(tx.data)
+  ]
+
+  if (sig) {
+    // EIP-155
+    const v = tx.chainId * 2 + 35 + sig.recoveryParam
+    legacyFields.push(
+      rlpQuantity(v.toString(16)),
+      rlpQuantity(sig.r),
+      rlpQuantity(sig.s)
+    )
+  } else {
+    legacyFields.push(
+      rlpQuantity(tx.chainId.toString(16)),
+      Buffer.alloc(0),
+      Buffer.alloc(0)
+    )
+  }
+
+  return rlpEncode(legacyFields)
+}
+
+/**
+ * The hash of a transaction that is signed.
+ */
+export function transactionSigningHash(tx: IUnsignedTransaction): Buffer {
+  return keccak256(serializeTransaction(tx))
+}
+
+/**
+ * Parse a signed transaction, and recover the address that signed it. The
+ * inverse of `serializeTransaction`.
+ *
+ * @param raw the signed transaction, as hex
+ */
+export function parseTransaction(
+  raw: string
+): IUnsignedTransaction & { from: string } {
+  const bytes = Buffer.from(raw.replace(/^0x/, ""), "hex")
+
+  if (bytes[0] === 2) {
+    const fields = decodeFields(bytes.slice(1), 12)
+
+    const accessList = fields[8]
+    if (!Array.isArray(accessList) || accessList.length > 0) {
+      throw new Error("Access lists are not supported")
+    }
+
+    const tx: IUnsignedTransaction = {
+      chainId: Number(fieldQuantity(fields[0])),
+      nonce: fieldQuantity(fields[1]),
+      maxPriorityFeePerGas: fieldQuantity(fields[2]),
+      maxFeePerGas: fieldQuantity(fields[3]),
+      gas: fieldQuantity(fields[4]),
+      to: fieldData(fields[5]),
+      value: fieldQuantity(fields[6]),
+      data: fieldData(fields[7]),
+      type: "0x2"
+    }
+
+    const yParity = Number(fieldQuantity(fields[9]))
+    return { ...tx, from: recoverSigner(tx, fields[10], fields[11], yParity) }
+  }
+
+  // legacy transactions are RLP lists, which start at 0xc0
+  if (!(bytes[0] >= 0xc0)) {
+    throw new Error(`Unsupported transaction type: ${bytes[0]}`)
+  }
+
+  const legacyFields = decodeFields(bytes, 9)
+
+  const v = Number(fieldQuantity(legacyFields[6]))
+  if (v < 35) {
+    throw new Error("Transaction is not signed with EIP-155")
+  }
+
+  const legacyTx: IUnsignedTransaction = {
+    chainId: Math.floor((v - 35) / 2),
+    nonce: fieldQuantity(legacyFields[0]),
+    gasPrice: fieldQuantity(legacyFields[1]),
+    gas: fieldQuantity(legacyFields[2]),
+    to: fieldData(legacyFields[3]),
+    value: fieldQuantity(legacyFields[4]),
+    data: fieldData(legacyFields[5])
+  }
+
+  const [r, s] = legacyFields.slice(7)
+  return { ...legacyTx, from: recoverSigner(legacyTx, r, s, (v - 35) % 2) }
+}
+
+function decodeFields(input: Buffer, count: number): RLPInput[] {
+  const fields = rlpDecode(input)
+  if (!Array.isArray(fields) || fields.length !== count) {
+    throw new Error("Invalid transaction")
+  }
+
+  return fields
+}
+
+function fieldBytes(field: RLPInput): Buffer {
+  if (Array.isArray(field)) {
+    throw new Error("Invalid transaction")
+  }
+
+  return field
+}
+
+function fieldQuantity(field: RLPInput): string {
+  return `0x${fieldBytes(field).toString("hex").replace(/^0+/, "") || "0"}`
+}
+
+function fieldData(field: RLPInput): string {
+  return `0x${fieldBytes(field).toString("hex")}`
+}
+
+function recoverSigner(
+  tx: IUnsignedTransaction,
+  r: RLPInput,
+  s: RLPInput,
+  recoveryParam: number
+): string {
+  return recoverAddress(
+    transactionSigningHash(tx),
+    fieldBytes(r).toString("hex"),
+    fieldBytes(s).toString("hex"),
+    recoveryParam
+  )
+}
@@ -0,0 +1,368 @@
+import { Cancel } from "axios"
+
+import { RPCError } from "./errors"
+import { IJSONRPCRequest, IRPCCallOption } from "./RPCRaw"
+
+/**
+ * The response of a transport to a JSON-RPC request. It is modeled after an
+ * HTTP response, so RPCRaw can handle responses of all transports uniformly.
+ * Transports that aren't HTTP based always respond with status 200.
+ */
+export interface ITransportResponse {
+  status: number
+  statusText: string
+  headers: { [key: string]: string }
+
+  /**
+   * The JSON-RPC response. An array of responses for batch requests.
+   */
+  data: any
+}
+
+/**
+ * Receives the `result` of each notification of a subscription.
+ */
+export type SubscriptionListener = (result: any) => void
+
+/**
+ * A subscription created with `eth_subscribe`.
+ */
+export interface ISubscription {
+  unsubscribe(): Promise<void>
+}
+
+/**
+ * A transport delivers JSON-RPC requests (single or batch) to a node.
+ */
+export interface ITransport {
+  request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts?: IRPCCallOption
+  ): Promise<ITransportResponse>
+
+  /**
+   * Subscribe to notifications pushed by the node (`eth_subscribe`). Only
+   * transports that keep a connection open support subscriptions.
+   *
+   * @param params params of `eth_subscribe`, e.g. ["newHeads"]
+   * @param onResubscribe called once the transport subscribed again after the
+   * connection was lost. Notifications of the time in between are missed.
+   */
+  subscribe?(
+    params: any[],
+    listener: SubscriptionListener,
+    onResubscribe?: () => void
+  ): Promise<ISubscription>
+
+  /**
+   * Release resources held by the transport (e.g. an open connection).
+   */
+  close?(): void
+}
+
+/**
+ * Wrap a JSON-RPC response as a successful transport response.
+ */
+export function jsonResponse(data: any): ITransportResponse {
+  return {
+    status: 200,
+    statusText: "OK",
+    headers: { "content-type": "application/json" },
+    data
+  }
+}
+
+/**
+ * Return the result of a JSON-RPC response, or throw its error.
+ */
+export function responseResult(
+  res: ITransportResponse,
+  rpcCall: IJSONRPCRequest
+): any {
+  const { method, params } = rpcCall
+  const { result, error } = res.data
+
+  if (error != null) {
+    const { code, message, data } = error
+    throw new RPCError(`${method}(${params}): [${code}] ${message}`, {
+      method,
+      params,
+      code,
+      data,
+      httpStatus: res.status
+    })
+  }
+
+  return result
+}
+
+interface IPendingRequest {
+  // maps the ids sent over the connection to the ids of the caller
+  ids: Map<number, any>
+  resolve: (res: ITransportResponse) => void
+  reject: (err: any) => void
+}
+
+interface ISubscriptionEntry {
+  params: any[]
+  listener: SubscriptionListener
+  onResubscribe?: () => void
+
+  // subscription id assigned by the node
+  id: string
+}
+
+// delay before resubscribing after the connection is lost, doubled after each
+// failed attempt
+const RESUBSCRIBE_DELAY = 100
+const MAX_RESUBSCRIBE_DELAY = 30000
+
+/**
+ * Base class of transports that keep a connection open, and receive responses
+ * as messages that are matched to requests by JSON-RPC id.
+ *
+ * Requests are sent with ids assigned by the transport, so that a transport
+ * can be shared by multiple RPC clients without id collisions.
+ *
+ * If the connection is lost while there are subscriptions, the transport
+ * reconnects, and subscribes again with the same params. Subscribers are told
+ * with `onResubscribe`, so that they can fetch what they missed.
+ */
+export abstract class ConnectionTransport implements ITransport {
+  private _idNonce = 0
+  private _pending: Map<number, IPendingRequest> = new Map()
+  private _subscriptions: Set<ISubscriptionEntry> = new Set()
+  private _subscriptionIDs: Map<string, ISubscriptionEntry> = new Map()
+  private _subscribing = 0
+  // notifications received before the id of their subscription, by id
+  private _earlyNotifications: Map<string, any[]> = new Map()
+  private _resubscribeTimer?: any
+  private _resubscribeDelay = 0
+
+  public async request(
+    payload: IJSONRPCRequest | IJSONRPCRequest[],
+    opts: IRPCCallOption = {}
+  ): Promise<ITransportResponse> {
+    await this.connect()
+
+    const ids: Map<number, any> = new Map()
+    const assignID = (rpcCall: IJSONRPCRequest) => {
+      const id = this._idNonce++
+      ids.set(id, rpcCall.id)
+      return { ...rpcCall, id }
+    }
+
+    const message = Array.isArray(payload)
+      ? payload.map(assignID)
+      : assignID(payload)
+
+    return new Promise<ITransportResponse>((resolve, reject) => {
+      const pending: IPendingRequest = { ids, resolve, reject }
+      for (const id of ids.keys()) {
+        this._pending.set(id, pending)
+      }
+
+      if (opts.cancelToken) {
+        opts.cancelToken.promise.then((cancel: Cancel) => {
+          this.settle(pending)
+          reject(cancel)
+        })
+      }
+
+      try {
+        this.send(JSON.stringify(message))
+      } catch (err) {
+        this.settle(pending)
+        reject(err)
+      }
+    })
+  }
+
+  public async subscribe(
+    params: any[],
+    listener: SubscriptionListener,
+    onResubscribe?: () => void
+  ): Promise<ISubscription> {
+    const entry: ISubscriptionEntry = {
+      params,
+      listener,
+      onResubscribe,
+      id: ""
+    }
+    await this.requestSubscription(entry)
+    this._subscriptions.add(entry)
+
+    return {
+      unsubscribe: () => this.unsubscribe(entry)
+    }
+  }
+
+  /**
+   * Close the connection, and drop all subscriptions.
+   */
+  public close() {
+    this._subscriptions.clear()
+    this._subscriptionIDs.clear()
+
+    if (this._resubscribeTimer) {
+      clearTimeout(this._resubscribeTimer)
+      this._resubscribeTimer = undefined
+    }
+
+    this.disconnect()
+  }
+
+  /**
+   * Open the connection if it isn't already open.
+   */
+  protected abstract connect(): Promise<void>
+
+  protected abstract disconnect(): void
+
+  protected abstract send(message: string): void
+
+  /**
+   * Dispatch a message received from the node to the pending request it
+   * responds to.
+   */
+  protected handleMessage(message: any) {
+    if (message.method === "eth_subscription" && message.params) {
+      const { subscription, result } = message.params
+
+      const entry = this._subscriptionIDs.get(subscription)
+      if (entry) {
+        entry.listener(result)
+      } else if (this._subscribing > 0) {
+        // the node may notify before its response to eth_subscribe arrives
+        const early = this._earlyNotifications.get(subscription) || []
+        early.push(result)
+        this._earlyNotifications.set(subscription, early)
+      }
+      return
+    }
+
+    const id = Array.isArray(message)
+      ? message.length > 0 && message[0].id
+      : message.id
+
+    const pending = this._pending.get(id)
+    if (pending == null) {
+      return
+    }
+
+    this.settle(pending)
+
+    const restoreID = (response: any) => ({
+      ...response,
+      id: pending.ids.get(response.id)
+    })
+
+    pending.resolve(
+      jsonResponse(
+        Array.isArray(message) ? message.map(restoreID) : restoreID(message)
+      )
+    )
+  }
+
+  /**
+   * Fail all pending requests, and restore subscriptions on a new connection.
+   * Subclasses call this when the connection is lost.
+   */
+  protected handleDisconnect(err: Error) {
+    const pendings = new Set(this._pending.values())
+    this._pending.clear()
+
+    for (const pending of pendings) {
+      pending.reject(err)
+    }
+
+    // the node forgets subscriptions of a closed connection
+    this._subscriptionIDs.clear()
+
+    if (this._subscriptions.size > 0) {
+      this.scheduleResubscribe()
+    }
+  }
+
+  /**
+   * Subscribe on the current connection, and register the subscription id.
+   * Notifications that arrived before the id are delivered first.
+   */
+  private async requestSubscription(entry: ISubscriptionEntry) {
+    const rpcCall = { id: 0, method: "eth_subscribe", params: entry.params }
+
+    this._subscribing++
+    try {
+      entry.id = responseResult(await this.request(rpcCall), rpcCall)
+      this._subscriptionIDs.set(entry.id, entry)
+
+      const early = this._earlyNotifications.get(entry.id) || []
+      this._earlyNotifications.delete(entry.id)
+      for (const result of early) {
+        entry.listener(result)
+      }
+    } finally {
+      this._subscribing--
+      if (this._subscribing === 0) {
+        this._earlyNotifications.clear()
+      }
+    }
+  }
+
+  private async unsubscribe(entry: ISubscriptionEntry) {
+    if (!this._subscriptions.delete(entry)) {
+      return
+    }
+
+    // not subscribed on the current connection
+    if (this._subscriptionIDs.get(entry.id) !== entry) {
+      return
+    }
+
+    this._subscriptionIDs.delete(entry.id)
+
+    const rpcCall = { id: 0, method: "eth_unsubscribe", params: [entry.id] }
+    responseResult(await this.request(rpcCall), rpcCall)
+  }
+
+  private scheduleResubscribe() {
+    if (this._resubscribeTimer) {
+      return
+    }
+
+    this._resubscribeDelay = Math.min(
+      this._resubscribeDelay * 2 || RESUBSCRIBE_DELAY,
+      MAX_RESUBSCRIBE_DELAY
+    )
+
+    this._resubscribeTimer = setTimeout(() => {
+      this._resubscribeTimer = undefined
+      this.resubscribe()
+    }, this._resubscribeDelay)
+  }
+
+  private async resubscribe() {
+    try {
+      for (const entry of this._subscriptions) {
+        if (this._subscriptionIDs.get(entry.id) === entry) {
+          continue
+        }
+
+        await this.requestSubscription(entry)
+        if (entry.onResubscribe) {
+          entry.onResubscribe()
+        }
+      }
+
+      this._resubscribeDelay = 0
+    } catch (err) {
+      this.scheduleResubscribe()
+    }
+  }
+
+  private settle(pending: IPendingRequest) {
+    for (const id of pending.ids.keys()) {
+      this._pending.delete(id)
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import "mocha"
+import { assert } from "chai"
+import * as net from "net"
+import * as os from "os"
+import * as path from "path"
+
+import { EthRPC } from "./EthRPC"
+import { IPCTransport, splitJSONValues } from "./IPCTransport"
+import { MemoryTransport } from "./MemoryTransport"
+import { sleep } from "./sleep"
+
+describe("Transport", () => {
+  describe("MemoryTransport", () => {
+    it("serves EthRPC calls in-process", async () => {
+      const rpc = new EthRPC(
+        new MemoryTransport({
+          eth_blockNumber: () => "0x2a",
+          eth_accounts: () => ["0x90f8bf6a479f320ead074411a4b0e7944ea8c9c1"]
+        })
+      )
+
+      assert.equal(await rpc.getBlockNumber(), 42)
+      assert.equal(
+        await rpc.getSender(),
+        "0x90f8bf6a479f320ead074411a4b0e7944ea8c9c1"
+      )
+    })
+  })
+
+  describe("IPCTransport", () => {
+    const socketPath = path.join(os.tmpdir(), `qtumjs-test-${process.pid}.ipc`)
+    let server: net.Server
+
+    before((done) => {
+      // responds to each request in two chunks, to exercise stream splitting
+      server = net.createServer((socket) => {
+        let buffer = ""
+        socket.setEncoding("utf8")
+        socket.on("data", (data: string) => {
+          const [messages, rest] = splitJSONValues(buffer + data)
+          buffer = rest
+
+          const res = messages
+            .map((message) => {
+              const req = JSON.parse(message)
+              return JSON.stringify(
+                Array.isArray(req)
+                  ? req.map(({ id }: any) => ({ jsonrpc: "2.0", id, result: id }))
+                  : { jsonrpc: "2.0", id: req.id, result: req.method }
+              )
+            })
+            .join("\n")
+
+          socket.write(res.slice(0, 5))
+          setTimeout(() => socket.write(res.slice(5)), 5)
+        })
+      })
+
+      server.listen(socketPath, done)
+    })
+
+    after((done) => {
+      server.close(done)
+    })
+
+    it("sends requests over the socket", async () => {
+      const transport = new IPCTransport(socketPath)
+      const rpc = new EthRPC(transport)
+
+      const [a, b] = await Promise.all([
+        rpc.rawCall("eth_a"),
+        rpc.rawCall("eth_b")
+      ])
+      assert.equal(a, "eth_a")
+      assert.equal(b, "eth_b")
+
+      transport.close()
+    })
+
+    it("matches responses to requests of the caller", async () => {
+      const transport = new IPCTransport(socketPath)
+
+      const res = await transport.request([
+        { id: "x", method: "eth_a", params: [] },
+        { id: "y", method: "eth_b", params: [] }
+      ])
+
+      assert.deepEqual(res.data.map(({ id }: any) => id), ["x", "y"])
+
+      transport.close()
+    })
+  })
+
+  describe("ConnectionTransport subscriptions", () => {
+    const socketPath = path.join(
+      os.tmpdir(),
+      `qtumjs-test-sub-${process.pid}.ipc`
+    )
+
+    let server: net.Server
+    let sockets: net.Socket[] = []
+    let subscriptionNonce = 0
+    const subscribeParams: any[] = []
+
+    // sent before the response to eth_subscribe, if set
+    let earlyNotification: any
+
+    // push a notification to all subscriptions
+    function notify(result: any) {
+      for (const socket of sockets) {
+        socket.write(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            method: "eth_subscription",
+            params: { subscription: `0x${subscriptionNonce}`, result }
+          })
+        )
+      }
+    }
+
+    before((done) => {
+      server = net.createServer((socket) => {
+        sockets.push(socket)
+        socket.on("close", () => {
+          sockets = sockets.filter((s) => s !== socket)
+        })
+
+        let buffer = ""
+        socket.setEncoding("utf8")
+        socket.on("data", (data: string) => {
+          const [messages, rest] = splitJSONValues(buffer + data)
+          buffer = rest
+
+          for (const message of messages) {
+            const { id, method, params } = JSON.parse(message)
+
+            let result: any = true
+            if (method === "eth_subscribe") {
+              subscribeParams.push(params)
+              result = `0x${++subscriptionNonce}`
+
+              if (earlyNotification) {
+                notify(earlyNotification)
+              }
+            }
+
+            socket.write(JSON.stringify({ jsonrpc: "2.0", id, result }))
+          }
+        })
+      })
+
+      server.listen(socketPath, done)
+    })
+
+    after((done) => {
+      server.close(done)
+    })
+
+    it("delivers notifications, and resubscribes after reconnecting", async () => {
+      const transport = new IPCTransport(socketPath)
+      const rpc = new EthRPC(transport)
+      assert.isTrue(rpc.supportsSubscriptions)
+
+      const received: string[] = []
+      const subscription = await rpc.subscribeLogs(
+        { address: "0xaa" },
+        (entry) => received.push(entry.data)
+      )
+
+      notify({ data: "0x01" })
+      await sleep(5)
+
+      // the node closes the connection
+      for (const socket of sockets) {
+        socket.destroy()
+      }
+      await sleep(200)
+
+      notify({ data: "0x02" })
+      await sleep(5)
+
+      assert.deepEqual(received, ["0x01", "0x02"])
+      assert.deepEqual(subscribeParams, [
+        ["logs", { address: "0xaa" }],
+        ["logs", { address: "0xaa" }]
+      ])
+
+      await subscription.unsubscribe()
+      notify({ data: "0x03" })
+      await sleep(5)
+
+      assert.deepEqual(received, ["0x01", "0x02"])
+
+      transport.close()
+    })
+
+    it("delivers notifications that arrive before the subscription id", async () => {
+      const transport = new IPCTransport(socketPath)
+
+      earlyNotification = { data: "0x00" }
+      const received: string[] = []
+      await transport.subscribe(["logs", {}], (entry) =>
+        received.push(entry.data)
+      )
+      earlyNotification = undefined
+
+      assert.deepEqual(received, ["0x00"])
+
+      transport.close()
+    })
+  })
+
+  describe("splitJSONValues", () => {
+    it("splits concatenated values, and keeps the incomplete rest", () => {
+      const [values, rest] = splitJSONValues(
+        `{"a":"}{"}\n[1,{"b":2}] {"c":`
+      )
+
+      assert.deepEqual(values, [`{"a":"}{"}`, `[1,{"b":2}]`])
+      assert.equal(rest, `{"c":`)
+    })
+  })
+})
@@ -1,6 +1,14 @@
 import { EventEmitter } from "eventemitter3"
 
 import { sleep } from "./sleep"
+import {
+  ConfirmationTimeoutError,
+  ContractRevertError,
+  TransactionFailedError,
+  TransactionNotFoundError,
+  TransactionReplacedError
+} from "./errors"
+import { IRPCCallOption } from "./RPCRaw"
 import {
   EthRPC,
   IGetTransactionResult,
@@ -17,9 +25,19 @@ const EVENT_CONFIRM = "confirm"
 
 const ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME = 7500
 
-// tslint:disable-next-line:no-empty-interface
-export interface ITxReceiptConfirmOptions {
+export interface ITxReceiptConfirmOptions extends IRPCCallOption {
   pollInterval?: number
+
+  /**
+   * Maximum time in ms to wait for the confirmations.
+   */
+  timeout?: number
+
+  /**
+   * txids of transactions that replace the transaction (same nonce), e.g.
+   * sent by `EthRPC#speedUp`. Txids added while waiting are picked up.
+   */
+  replacements?: string[]
 }
 
 export class TxReceiptPromise {
@@ -29,37 +47,120 @@ export class TxReceiptPromise {
     this._emitter = new EventEmitter()
   }
 
+  /**
+   * Wait for the transaction, or one of its replacements, to be mined and
+   * confirmed. The receipt's `transactionHash` tells which one was mined.
+   */
   // TODO should return parsed logs with the receipt
   public async confirm(
     confirm: number = 3,
     opts: ITxReceiptConfirmOptions = {}
   ): Promise<IGetTransactionReceiptResult> {
     const rpc = this._rpc
-    const tx = await rpc.getTransaction(this.txid)
-    if (tx == null) {
-      throw new Error(`Cannot find transaction(${tx}`)
+    const { txid } = this
+    const {
+      pollInterval = ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME,
+      timeout,
+      replacements = []
+    } = opts
+
+    const source = rpc.cancelTokenSource()
+    if (opts.cancelToken) {
+      opts.cancelToken.promise.then((cancel) => source.cancel(cancel.message))
     }
 
+    let timedOut = false
+    let timer: any
+    if (timeout) {
+      timer = setTimeout(() => {
+        timedOut = true
+        source.cancel(`confirm timed out after ${timeout}ms`)
+      }, timeout)
+    }
+
+    try {
+      return await this.waitForConfirmations(
+        confirm,
+        pollInterval,
+        replacements,
+        {
+          cancelToken: source.token
+        }
+      )
+    } catch (err) {
+      if (timedOut) {
+        throw new ConfirmationTimeoutError(txid, timeout!)
+      }
+
+      throw err
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  public onConfirm(fn: EthTxReceiptConfirmationHandler) {
+    this._emitter.on(EVENT_CONFIRM, fn)
+  }
+
+  public offConfirm(fn: EthTxReceiptConfirmationHandler) {
+    this._emitter.off(EVENT_CONFIRM, fn)
+  }
+
+  private async waitForConfirmations(
+    confirm: number,
+    pollInterval: number,
+    replacements: string[],
+    opts: IRPCCallOption
+  ): Promise<IGetTransactionReceiptResult> {
+    const rpc = this._rpc
     const { txid } = this
-    const { pollInterval = ETH_HALF_ESTIMATED_AVERAGE_BLOCK_TIME } = opts
+    const { cancelToken } = opts
+
+    // a replaced transaction may already be gone from the node
+    let tx = await this.findTransaction(replacements, opts)
+    if (tx == null) {
+      throw new TransactionNotFoundError(txid)
+    }
 
     let prevConfirmationCounter = 0
 
     while (true) {
-      const receipt = await rpc.getTransactionReceipt(txid)
-      const currentBlockNumber = await rpc.getBlockNumber()
+      let receipt = await this.findReceipt(replacements, opts)
+      const currentBlockNumber = await rpc.getBlockNumber(opts)
 
-      // not yet confirmed or is pending
       if (receipt == null) {
-        await sleep(pollInterval)
-        continue
+        const minedCount = await rpc.getTransactionCount(
+          tx.from,
+          "latest",
+          opts
+        )
+        if (minedCount <= Number(tx.nonce)) {
+          // not yet confirmed or is pending
+          await sleep(pollInterval, cancelToken)
+          continue
+        }
+
+        // the nonce is used. Check again in case one of ours was just mined.
+        receipt = await this.findReceipt(replacements, opts)
+        if (receipt == null) {
+          throw new TransactionReplacedError(txid)
+        }
+      }
+
+      if (receipt.transactionHash !== tx.hash) {
+        tx = (await rpc.getTransaction(receipt.transactionHash, opts)) || tx
       }
 
       const hasTransactionError =
         receipt.status != null &&
         Number(receipt.status) === TRANSACTION_STATUS.FAILED
       if (hasTransactionError) {
-        throw new Error("Transaction process error")
+        const revert = await this.replay(tx, receipt, opts)
+        throw new TransactionFailedError(
+          receipt,
+          revert && revert.revertData,
+          revert && revert.reason
+        )
       }
 
       const receiptBlockNumber = receipt.blockNumber
@@ -68,7 +169,7 @@ export class TxReceiptPromise {
         currentBlockNumber - Number(receiptBlockNumber)
       if (confirmationCounter === 0 && confirm > 0) {
         // ignore fresh receipt
-        await sleep(pollInterval)
+        await sleep(pollInterval, cancelToken)
         continue
       }
 
@@ -84,7 +185,7 @@ export class TxReceiptPromise {
           this._emitter.emit(EVENT_CONFIRM, tx, receipt)
         }
 
-        await sleep(pollInterval)
+        await sleep(pollInterval, cancelToken)
         continue
       }
 
@@ -94,11 +195,74 @@ export class TxReceiptPromise {
     }
   }
 
-  public onConfirm(fn: EthTxReceiptConfirmationHandler) {
-    this._emitter.on(EVENT_CONFIRM, fn)
+  /**
+   * The transaction, or the first of its replacements that the node knows.
+   */
+  private async findTransaction(
+    replacements: string[],
+    opts: IRPCCallOption
+  ): Promise<IGetTransactionResult | null> {
+    // single calls rather than a batch, so that they go through the middleware
+    for (const txid of [this.txid, ...replacements]) {
+      const tx = await this._rpc.getTransaction(txid, opts)
+      if (tx != null) {
+        return tx
+      }
+    }
+
+    return null
   }
 
-  public offConfirm(fn: EthTxReceiptConfirmationHandler) {
-    this._emitter.off(EVENT_CONFIRM, fn)
+  /**
+   * The receipt of the transaction or of one of its replacements, whichever is
+   * mined.
+   */
+  private async findReceipt(
+    replacements: string[],
+    opts: IRPCCallOption
+  ): Promise<IGetTransactionReceiptResult | null> {
+    for (const txid of [this.txid, ...replacements]) {
+      const receipt = await this._rpc.getTransactionReceipt(txid, opts)
+      if (receipt != null) {
+        return receipt
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Replay a failed transaction as a call at the block it was mined in, to
+   * recover its revert reason.
+   */
+  private async replay(
+    tx: IGetTransactionResult,
+    receipt: IGetTransactionReceiptResult,
+    opts: IRPCCallOption
+  ): Promise<ContractRevertError | undefined> {
+    if (tx.to == null) {
+      return undefined
+    }
+
+    try {
+      await this._rpc.call(
+        {
+          from: tx.from,
+          to: tx.to,
+          data: tx.input,
+          value: tx.value,
+          gasLimit: tx.gas,
+          blockNumber: Number(receipt.blockNumber)
+        },
+        opts
+      )
+    } catch (err) {
+      if (err instanceof ContractRevertError) {
+        return err
+      }
+    }
+
+    // the call succeeded or failed for another reason
+    return undefined
   }
 }
@@ -0,0 +1,185 @@
+import "mocha"
+import { assert } from "chai"
+
+import {
+  ConfirmationTimeoutError,
+  TransactionFailedError,
+  TransactionReplacedError
+} from "./errors"
+import { IETHABI } from "./ethjs-abi"
+import { sleep } from "./sleep"
+import { TxReceiptPromise } from "./TxReceiptPromise"
+import { assertThrow } from "./test/assert"
+import { fooABI, fooAddress, useMockFoo } from "./test/mock"
+
+const { encodeSignature } = require("ethjs-abi") as IETHABI
+
+describe("TxReceiptPromise", () => {
+  const [, setFoo] = fooABI
+  const address = fooAddress
+
+  const mock = useMockFoo()
+
+  // mine a block each time the confirmer polls the block number
+  function mineOnPoll() {
+    mock.rpc.use(async (rpcCall, next) => {
+      if (rpcCall.method === "eth_blockNumber") {
+        mock.node.mine()
+      }
+
+      return next(rpcCall)
+    })
+  }
+
+  it("waits for confirmations", async () => {
+    mineOnPoll()
+
+    const { txid } = await mock.rpc.sendTransaction({
+      to: address,
+      data: encodeSignature(setFoo)
+    })
+
+    const txrp = new TxReceiptPromise(mock.rpc, txid)
+
+    let confirmations = 0
+    txrp.onConfirm(() => confirmations++)
+
+    const receipt = await txrp.confirm(3, { pollInterval: 1 })
+
+    assert.equal(receipt.transactionHash, txid)
+    assert.isAtLeast(mock.node.blockNumber - Number(receipt.blockNumber), 3)
+    assert.isAbove(confirmations, 0)
+  })
+
+  it("polls with single calls, which go through the middleware", async () => {
+    mineOnPoll()
+
+    const methods: string[] = []
+    mock.rpc.use(async (rpcCall, next) => {
+      methods.push(rpcCall.method)
+      return next(rpcCall)
+    })
+
+    const { txid } = await mock.rpc.sendTransaction({
+      to: address,
+      data: encodeSignature(setFoo)
+    })
+
+    const replacement = `0x${"1".repeat(64)}`
+    await new TxReceiptPromise(mock.rpc, txid).confirm(1, {
+      pollInterval: 1,
+      replacements: [replacement]
+    })
+
+    assert.include(methods, "eth_getTransactionByHash")
+    assert.include(methods, "eth_getTransactionReceipt")
+  })
+
+  it("throws TransactionFailedError if the transaction fails", async () => {
+    mineOnPoll()
+    mock.node.failMethod(encodeSignature(setFoo))
+
+    const { txid } = await mock.rpc.sendTransaction({
+      to: address,
+      data: encodeSignature(setFoo)
+    })
+
+    await assertThrow(
+      async () => {
+        const txrp = new TxReceiptPromise(mock.rpc, txid)
+        return txrp.confirm(1, { pollInterval: 1 })
+      },
+      "transaction failed",
+      (err) => {
+        assert.instanceOf(err, TransactionFailedError)
+        assert.equal(err.receipt.transactionHash, txid)
+      }
+    )
+  })
+
+  it("throws ConfirmationTimeoutError if not confirmed in time", async () => {
+    const { txid } = await mock.rpc.sendTransaction({
+      to: address,
+      data: encodeSignature(setFoo)
+    })
+
+    await assertThrow(
+      async () => {
+        const txrp = new TxReceiptPromise(mock.rpc, txid)
+        return txrp.confirm(1, { pollInterval: 5, timeout: 20 })
+      },
+      "confirm timed out",
+      (err) => {
+        assert.instanceOf(err, ConfirmationTimeoutError)
+        assert.equal(err.txid, txid)
+      }
+    )
+  })
+
+  describe("replacement", () => {
+    it("speeds up a pending transaction", async () => {
+      const tx = await mock.contract.send("setFoo", [1])
+      const replacement = await tx.speedUp()
+
+      const replacementTx = (await mock.rpc.getTransaction(replacement.txid))!
+      assert.equal(replacementTx.nonce, tx.nonce)
+      assert.equal(replacementTx.input, tx.input)
+      assert.equal(replacementTx.gasPrice, "0x2")
+      assert.isNull(await mock.rpc.getTransaction(tx.txid))
+
+      mock.node.mine()
+
+      const receipt = await tx.confirm(0, undefined, { pollInterval: 1 })
+      assert.equal(receipt.transactionHash, replacement.txid)
+    })
+
+    it("cancels a pending transaction", async () => {
+      mock.node.baseFeePerGas = "0x64"
+      mock.node.maxPriorityFeePerGas = "0xa"
+
+      const tx = await mock.contract.send("setFoo", [1])
+      const replacement = await tx.cancel()
+
+      const replacementTx = (await mock.rpc.getTransaction(replacement.txid))!
+      assert.equal(replacementTx.nonce, tx.nonce)
+      assert.equal(replacementTx.to, tx.from)
+      assert.equal(replacementTx.value, "0x0")
+      assert.equal(replacementTx.maxPriorityFeePerGas, "0xb")
+
+      mock.node.mine()
+
+      const receipt = await tx.confirm(0, undefined, { pollInterval: 1 })
+      assert.equal(receipt.transactionHash, replacement.txid)
+    })
+
+    it("refuses to replace a mined transaction", async () => {
+      const tx = await mock.contract.send("setFoo", [1])
+      mock.node.mine()
+
+      await assertThrow(() => tx.speedUp(), "already mined")
+    })
+
+    it("throws TransactionReplacedError if replaced by another", async () => {
+      const tx = await mock.contract.send("setFoo", [1])
+      const confirmed = tx.confirm(0, undefined, { pollInterval: 1 })
+
+      await sleep(5)
+      await mock.rpc.sendTransaction({
+        to: address,
+        data: "0x",
+        gasPrice: 5,
+        nonce: tx.nonce
+      })
+      mock.node.mine()
+
+      await assertThrow(
+        () => confirmed,
+        "transaction replaced",
+        (err) => {
+          assert.instanceOf(err, TransactionReplacedError)
+          assert.equal(err.txid, tx.txid)
+        }
+      )
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { ConnectionError } from "./errors"
+import { ConnectionTransport } from "./Transport"
+
+export interface IWebSocketTransportOptions {
+  /**
+   * WebSocket implementation. Defaults to the browser's `WebSocket`, or the
+   * `ws` package on node.
+   */
+  WebSocket?: typeof WebSocket
+}
+
+function defaultWebSocket(): typeof WebSocket {
+  if (typeof WebSocket !== "undefined") {
+    return WebSocket
+  }
+
+  return require("ws")
+}
+
+/**
+ * WebSocketTransport sends JSON-RPC requests over a WebSocket connection. The
+ * connection is opened by the first request, and reopened by the next request
+ * after it is closed.
+ */
+export class WebSocketTransport extends ConnectionTransport {
+  private _WebSocket: typeof WebSocket
+  private _socket?: WebSocket
+  private _connecting?: Promise<void>
+
+  constructor(public url: string, opts: IWebSocketTransportOptions = {}) {
+    super()
+    this._WebSocket = opts.WebSocket || defaultWebSocket()
+  }
+
+  protected connect(): Promise<void> {
+    if (this._connecting) {
+      return this._connecting
+    }
+
+    this._connecting = new Promise<void>((resolve, reject) => {
+      const socket = new this._WebSocket(this.url)
+
+      socket.onopen = () => {
+        this._socket = socket
+        resolve()
+      }
+
+      socket.onmessage = (event) => {
+        this.handleMessage(JSON.parse(event.data))
+      }
+
+      socket.onerror = () => {
+        reject(new ConnectionError(`WebSocket error: ${this.url}`))
+      }
+
+      socket.onclose = () => {
+        this._socket = undefined
+        this._connecting = undefined
+        const err = new ConnectionError(`WebSocket closed: ${this.url}`)
+        reject(err)
+        this.handleDisconnect(err)
+      }
+    })
+
+    return this._connecting
+  }
+
+  protected disconnect() {
+    if (this._socket) {
+      this._socket.close()
+    }
+  }
+
+  protected send(message: string) {
+    if (!this._socket) {
+      throw new ConnectionError(`WebSocket is not connected: ${this.url}`)
+    }
+
+    this._socket.send(message)
+  }
+}
@@ -1,3 +1,5 @@
+import BN = require("bn.js")
+
 import { typeBlockTags } from "./EthRPC"
 
 const HEX_CHARACTERS = "0123456789abcdef"
@@ -75,3 +77,10 @@ export function toNonNumberBlock(
 
   return block
 }
+
+/**
+ * Convert a hex quantity to a bn.js big number, e.g. an amount of wei.
+ */
+export function hexToBN(hex: string): BN {
+  return new BN(hex.replace(/^0x/, "") || "0", 16)
+}
@@ -0,0 +1,47 @@
+import BN = require("bn.js")
+import { ec as EC } from "elliptic"
+import { keccak256 as keccak } from "js-sha3"
+
+export const secp256k1 = new EC("secp256k1")
+
+export function keccak256(data: Buffer): Buffer {
+  return Buffer.from(keccak.arrayBuffer(data))
+}
+
+/**
+ * The address of a secp256k1 private key, in lowercase hex.
+ */
+export function privateKeyToAddress(privateKey: Buffer): string {
+  const publicKey = secp256k1
+    .keyFromPrivate(privateKey)
+    .getPublic(false, "hex")
+
+  return publicKeyToAddress(publicKey)
+}
+
+/**
+ * The address that signed a hash, in lowercase hex.
+ *
+ * @param recoveryParam 0 or 1, the parity of the y coordinate of R
+ */
+export function recoverAddress(
+  hash: Buffer,
+  r: string,
+  s: string,
+  recoveryParam: number
+): string {
+  // elliptic takes r and s as BN, which @types/elliptic only allows in a
+  // Signature
+  const signature = { r: new BN(r, 16), s: new BN(s, 16) }
+  const publicKey = secp256k1
+    .recoverPubKey(hash, signature as EC.Signature, recoveryParam)
+    .encode("hex", false)
+
+  return publicKeyToAddress(publicKey)
+}
+
+function publicKeyToAddress(publicKey: string): string {
+  // hash the public key without the 0x04 prefix of uncompressed keys
+  const hash = keccak256(Buffer.from(publicKey.slice(2), "hex"))
+  return `0x${hash.slice(-20).toString("hex")}`
+}
@@ -0,0 +1,201 @@
+import BN = require("bn.js")
+
+import { hexToBN } from "./convert"
+import {
+  IBlock,
+  IGetTransactionReceiptResult,
+  IGetTransactionResult,
+  ILogEntry,
+  TRANSACTION_STATUS
+} from "./EthRPC"
+
+/**
+ * A transaction with quantities decoded. Amounts of wei are big numbers.
+ */
+export interface IDecodedTransaction {
+  hash: string
+  nonce: number
+  from: string
+  to: string | null
+  value: BN
+  gas: number
+  gasPrice: BN
+  maxFeePerGas?: BN
+  maxPriorityFeePerGas?: BN
+
+  /**
+   * 0 for legacy transactions, 2 for EIP-1559 transactions.
+   */
+  type: number
+
+  input: string
+
+  /**
+   * `null` when the transaction is pending.
+   */
+  blockHash: string | null
+  blockNumber: number | null
+  transactionIndex: number | null
+}
+
+/**
+ * A log entry with quantities decoded.
+ */
+export interface IDecodedLogEntry {
+  removed: boolean
+  logIndex: number | null
+  transactionIndex: number | null
+  transactionHash: string | null
+  blockHash: string | null
+  blockNumber: number | null
+  address: string
+  data: string
+  topics: string[]
+}
+
+/**
+ * A transaction receipt with quantities decoded.
+ */
+export interface IDecodedTransactionReceipt {
+  blockHash: string
+  blockNumber: number
+  transactionHash: string
+  transactionIndex: number
+  from: string
+  to: string | null
+  cumulativeGasUsed: number
+  gasUsed: number
+  effectiveGasPrice?: BN
+  contractAddress: string | null
+  logsBloom: string
+
+  /**
+   * Not set by nodes before the Byzantium hard fork.
+   */
+  status?: TRANSACTION_STATUS
+
+  logs: IDecodedLogEntry[]
+}
+
+/**
+ * A block with quantities decoded.
+ */
+export interface IDecodedBlock<TTransaction = string> {
+  /**
+   * `null` when the block is pending.
+   */
+  number: number | null
+  hash: string | null
+  parentHash: string
+  nonce: string | null
+  sha3Uncles: string
+  logsBloom: string | null
+  transactionsRoot: string
+  stateRoot: string
+  receiptsRoot: string
+  miner: string
+  difficulty: BN
+  totalDifficulty: BN
+  extraData: string
+  size: number
+  gasLimit: number
+  gasUsed: number
+
+  /**
+   * Unix timestamp in seconds.
+   */
+  timestamp: number
+
+  baseFeePerGas?: BN
+  transactions: TTransaction[]
+  uncles: string[]
+}
+
+export function decodeTransaction(
+  tx: IGetTransactionResult
+): IDecodedTransaction {
+  return {
+    hash: tx.hash,
+    nonce: Number(tx.nonce),
+    from: tx.from,
+    to: tx.to || null,
+    value: hexToBN(tx.value),
+    gas: Number(tx.gas),
+    gasPrice: hexToBN(tx.gasPrice),
+    maxFeePerGas: optionalBN(tx.maxFeePerGas),
+    maxPriorityFeePerGas: optionalBN(tx.maxPriorityFeePerGas),
+    type: tx.type == null ? 0 : Number(tx.type),
+    input: tx.input,
+    blockHash: tx.blockHash || null,
+    blockNumber: optionalNumber(tx.blockNumber),
+    transactionIndex: optionalNumber(tx.transactionIndex)
+  }
+}
+
+export function decodeLogEntry(entry: ILogEntry): IDecodedLogEntry {
+  return {
+    ...entry,
+    logIndex: optionalNumber(entry.logIndex),
+    transactionIndex: optionalNumber(entry.transactionIndex),
+    blockNumber: optionalNumber(entry.blockNumber)
+  }
+}
+
+export function decodeTransactionReceipt(
+  receipt: IGetTransactionReceiptResult
+): IDecodedTransactionReceipt {
+  return {
+    blockHash: receipt.blockHash,
+    blockNumber: Number(receipt.blockNumber),
+    transactionHash: receipt.transactionHash,
+    transactionIndex: Number(receipt.transactionIndex),
+    from: receipt.from,
+    to: receipt.to || null,
+    cumulativeGasUsed: Number(receipt.cumulativeGasUsed),
+    gasUsed: Number(receipt.gasUsed),
+    effectiveGasPrice: optionalBN(receipt.effectiveGasPrice),
+    contractAddress: receipt.contractAddress,
+    logsBloom: receipt.logsBloom,
+    status:
+      receipt.status == null
+        ? undefined
+        : Number(receipt.status) === 1
+          ? TRANSACTION_STATUS.SUCCESS
+          : TRANSACTION_STATUS.FAILED,
+    logs: receipt.logs.map((entry) => decodeLogEntry(entry as ILogEntry))
+  }
+}
+
+/**
+ * Decode a block. Full transactions are decoded too.
+ */
+export function decodeBlock(block: IBlock): IDecodedBlock
+export function decodeBlock(
+  block: IBlock<IGetTransactionResult>
+): IDecodedBlock<IDecodedTransaction>
+export function decodeBlock(
+  block: IBlock<string | IGetTransactionResult>
+): IDecodedBlock<string | IDecodedTransaction> {
+  return {
+    ...block,
+    number: optionalNumber(block.number),
+    difficulty: hexToBN(block.difficulty),
+    totalDifficulty: hexToBN(block.totalDifficulty),
+    size: Number(block.size),
+    gasLimit: Number(block.gasLimit),
+    gasUsed: Number(block.gasUsed),
+    timestamp: Number(block.timestamp),
+    baseFeePerGas: optionalBN(block.baseFeePerGas),
+    transactions: block.transactions.map(
+      (tx) => (typeof tx === "string" ? tx : decodeTransaction(tx))
+    )
+  }
+}
+
+function optionalNumber(hex?: string | null): number | null {
+  return hex == null ? null : Number(hex)
+}
+
+function optionalBN(hex?: string | null): BN | undefined {
+  return hex == null ? undefined : hexToBN(hex)
+}
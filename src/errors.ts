@@ -0,0 +1,220 @@
+import { IRevertReason } from "./ContractErrorDecoder"
+import { IGetTransactionReceiptBase } from "./EthRPC"
+
+/**
+ * Details about a failed RPC call.
+ */
+export interface IRPCErrorInfo {
+  /**
+   * RPC method called.
+   */
+  method: string
+
+  /**
+   * RPC params of the call.
+   */
+  params: any[]
+
+  /**
+   * JSON-RPC error code, if the node responded with a JSON-RPC error.
+   */
+  code?: number
+
+  /**
+   * HTTP status of the response, if the transport is HTTP based.
+   */
+  httpStatus?: number
+
+  /**
+   * Additional error data returned by the node (e.g. revert data).
+   */
+  data?: any
+}
+
+/**
+ * RPCError is thrown when an RPC call fails.
+ */
+export class RPCError extends Error {
+  public method: string
+  public params: any[]
+  public code?: number
+  public httpStatus?: number
+  public data?: any
+
+  constructor(message: string, info: IRPCErrorInfo) {
+    super(message)
+    this.name = "RPCError"
+
+    this.method = info.method
+    this.params = info.params
+    this.code = info.code
+    this.httpStatus = info.httpStatus
+    this.data = info.data
+  }
+}
+
+/**
+ * The RPC method is not supported by the node.
+ */
+export class UnknownMethodError extends RPCError {
+  constructor(info: IRPCErrorInfo) {
+    super(`unknown method: ${info.method}`, info)
+    this.name = "UnknownMethodError"
+  }
+}
+
+/**
+ * The RPC method is known, but the node does not allow calling it.
+ */
+export class MethodNotAllowedError extends RPCError {
+  constructor(info: IRPCErrorInfo) {
+    super(`not allowed method: ${info.method}`, info)
+    this.name = "MethodNotAllowedError"
+  }
+}
+
+/**
+ * The node rejected the credentials of the call (HTTP 401), or the
+ * authorization of the call was denied.
+ */
+export class AuthorizationDeniedError extends RPCError {
+  constructor(message: string, info: IRPCErrorInfo) {
+    super(message, info)
+    this.name = "AuthorizationDeniedError"
+  }
+}
+
+/**
+ * The authorization of the call was neither accepted nor denied in time.
+ */
+export class AuthorizationTimeoutError extends RPCError {
+  constructor(public authID: string, info: IRPCErrorInfo) {
+    super(`Authorization timed out: ${authID}`, info)
+    this.name = "AuthorizationTimeoutError"
+  }
+}
+
+/**
+ * The call did not complete within its timeout.
+ */
+export class RPCTimeoutError extends RPCError {
+  constructor(public timeout: number, info: IRPCErrorInfo) {
+    super(`${info.method}: timed out after ${timeout}ms`, info)
+    this.name = "RPCTimeoutError"
+  }
+}
+
+/**
+ * The node throttled the call (HTTP 429). The call was not processed, and may
+ * be retried after a delay.
+ */
+export class RateLimitedError extends RPCError {
+  /**
+   * Seconds to wait before retrying, if the node says so.
+   */
+  public retryAfter?: number
+
+  constructor(info: IRPCErrorInfo, retryAfter?: number) {
+    super(`rate limited: ${info.method}`, info)
+    this.name = "RateLimitedError"
+    this.retryAfter = retryAfter
+  }
+}
+
+/**
+ * A call reverted. `reason` is set if the revert data is an error known to
+ * the contract's ABI, or a builtin `Error(string)` or `Panic(uint256)`.
+ */
+export class ContractRevertError extends RPCError {
+  constructor(
+    public revertData: string | undefined,
+    public reason: IRevertReason | null,
+    info: IRPCErrorInfo
+  ) {
+    super(
+      reason ? `execution reverted: ${reason.message}` : "execution reverted",
+      info
+    )
+    this.name = "ContractRevertError"
+  }
+}
+
+/**
+ * The node does not know the filter, e.g. because it was not polled for a
+ * while and expired.
+ */
+export class FilterNotFoundError extends RPCError {
+  constructor(public filterID: string, info: IRPCErrorInfo) {
+    super(`Filter not found: ${filterID}`, info)
+    this.name = "FilterNotFoundError"
+  }
+}
+
+/**
+ * The connection to the node failed, or was lost before the node responded.
+ */
+export class ConnectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConnectionError"
+  }
+}
+
+/**
+ * The transaction could not be found by the node.
+ */
+export class TransactionNotFoundError extends Error {
+  constructor(public txid: string) {
+    super(`Cannot find transaction: ${txid}`)
+    this.name = "TransactionNotFoundError"
+  }
+}
+
+/**
+ * Another transaction with the same nonce was mined instead of the
+ * transaction, and it is not one of the known replacements.
+ */
+export class TransactionReplacedError extends Error {
+  constructor(public txid: string) {
+    super(`Transaction replaced by an unknown transaction: ${txid}`)
+    this.name = "TransactionReplacedError"
+  }
+}
+
+/**
+ * The transaction did not get enough confirmations within the timeout.
+ */
+export class ConfirmationTimeoutError extends Error {
+  constructor(public txid: string, public timeout: number) {
+    super(`Transaction not confirmed after ${timeout}ms: ${txid}`)
+    this.name = "ConfirmationTimeoutError"
+  }
+}
+
+/**
+ * The transaction was mined, but its execution failed. The revert reason is
+ * recovered by replaying the transaction, if possible.
+ */
+export class TransactionFailedError extends Error {
+  constructor(
+    public receipt: IGetTransactionReceiptBase,
+    public revertData?: string,
+    public reason?: IRevertReason | null
+  ) {
+    super(
+      `Transaction process error: ${receipt.transactionHash}` +
+        (reason ? `: ${reason.message}` : "")
+    )
+    this.name = "TransactionFailedError"
+  }
+}
+
+/**
+ * The password of a keystore is wrong, or the keystore is corrupted.
+ */
+export class InvalidPasswordError extends Error {
+  constructor() {
+    super("Invalid keystore password")
+    this.name = "InvalidPasswordError"
+  }
+}
@@ -45,6 +45,14 @@ interface IArrayish {
 export interface IETHABI {
   encodeMethod(method: IABIMethod, values: any[]): string
 
+  encodeParams(types: string[], values: any[]): string
+
+  // 4 bytes selector of a method
+  encodeSignature(method: IABIMethod): string
+
+  // 32 bytes topic of an event
+  eventSignature(eventObject: IABIMethod): string
+
   // don't use this signature, just set `names` to []
   // decodeParams(
   //   types: string[],
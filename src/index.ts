@@ -7,9 +7,28 @@ if (typeof Buffer === "undefined") {
   })
 }
 
+// modules that need Node's builtins are exported by `node` instead
+
 export * from "./abi"
+export * from "./ContractErrorDecoder"
 export * from "./Contract"
 export * from "./TxReceiptPromise"
 export * from "./ethjs-abi"
 export * from "./EthRPC"
+export * from "./decode"
+export * from "./NonceManager"
+export * from "./Signer"
+export * from "./PrivateKeySigner"
+export * from "./RPCRaw"
+export * from "./errors"
+export * from "./retry"
+export * from "./RateLimiter"
+export * from "./CacheStore"
+export * from "./RPCCache"
+export * from "./Transport"
+export * from "./HTTPTransport"
+export * from "./WebSocketTransport"
+export * from "./MemoryTransport"
+export * from "./FailoverTransport"
+export * from "./MockEthNode"
 export * from "./Ethereum"
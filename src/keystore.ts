@@ -0,0 +1,213 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2,
+  randomBytes,
+  timingSafeEqual
+} from "crypto"
+import { scrypt } from "scrypt-js"
+
+import { keccak256 } from "./crypto"
+import { InvalidPasswordError } from "./errors"
+import { PrivateKeySigner } from "./PrivateKeySigner"
+
+export interface IScryptParams {
+  dklen: number
+  n: number
+  r: number
+  p: number
+  salt: string
+}
+
+export interface IPBKDF2Params {
+  dklen: number
+  c: number
+  prf: "hmac-sha256"
+  salt: string
+}
+
+/**
+ * A key encrypted in the Web3 Secret Storage format (keystore v3), as written
+ * by geth. Binary fields are hex, without 0x prefix.
+ *
+ * https://ethereum.org/en/developers/docs/data-structures-and-encoding/web3-secret-storage/
+ */
+export interface IKeystore {
+  version: 3
+  id: string
+  address?: string
+  crypto: {
+    cipher: "aes-128-ctr"
+    cipherparams: { iv: string }
+    ciphertext: string
+    kdf: "scrypt" | "pbkdf2"
+    kdfparams: IScryptParams | IPBKDF2Params
+    mac: string
+  }
+}
+
+export interface IKeystoreEncryptOptions {
+  /**
+   * Key derivation function. (default = "scrypt")
+   */
+  kdf?: "scrypt" | "pbkdf2"
+
+  /**
+   * scrypt cost parameter. Lower is faster, and easier to brute force.
+   * (default = 262144, like geth)
+   */
+  scryptN?: number
+
+  /**
+   * Iterations of pbkdf2. (default = 262144)
+   */
+  pbkdf2Iterations?: number
+}
+
+const DEFAULT_SCRYPT_N = 262144
+const DEFAULT_PBKDF2_ITERATIONS = 262144
+
+/**
+ * Encrypt a private key into a keystore v3.
+ *
+ * @param privateKey 32 bytes private key, as hex
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  opts: IKeystoreEncryptOptions = {}
+): Promise<IKeystore> {
+  const {
+    kdf = "scrypt",
+    scryptN = DEFAULT_SCRYPT_N,
+    pbkdf2Iterations = DEFAULT_PBKDF2_ITERATIONS
+  } = opts
+
+  const signer = new PrivateKeySigner(privateKey)
+  const salt = randomBytes(32).toString("hex")
+  const iv = randomBytes(16)
+
+  const kdfparams: IScryptParams | IPBKDF2Params =
+    kdf === "scrypt"
+      ? { dklen: 32, n: scryptN, r: 8, p: 1, salt }
+      : { dklen: 32, c: pbkdf2Iterations, prf: "hmac-sha256", salt }
+
+  const derivedKey = await deriveKey(password, kdf, kdfparams)
+
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.slice(0, 16), iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(signer.privateKey.slice(2), "hex")),
+    cipher.final()
+  ])
+
+  return {
+    version: 3,
+    id: uuidV4(),
+    address: signer.address.slice(2),
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf,
+      kdfparams,
+      mac: keystoreMAC(derivedKey, ciphertext).toString("hex")
+    }
+  }
+}
+
+/**
+ * Decrypt a keystore v3, and return a signer of its key.
+ *
+ * @param keystore the keystore, or its JSON
+ * @throws InvalidPasswordError if the password is wrong
+ */
+export async function decryptKeystore(
+  keystore: IKeystore | string,
+  password: string
+): Promise<PrivateKeySigner> {
+  const json = typeof keystore === "string" ? JSON.parse(keystore) : keystore
+
+  if (json.version !== 3) {
+    throw new Error(`Unsupported keystore version: ${json.version}`)
+  }
+
+  // some tools write "Crypto"
+  const params = json.crypto || json.Crypto
+  if (params.cipher !== "aes-128-ctr") {
+    throw new Error(`Unsupported keystore cipher: ${params.cipher}`)
+  }
+
+  const derivedKey = await deriveKey(password, params.kdf, params.kdfparams)
+  const ciphertext = Buffer.from(params.ciphertext, "hex")
+
+  const mac = keystoreMAC(derivedKey, ciphertext)
+  const expectedMAC = Buffer.from(params.mac, "hex")
+  if (
+    mac.length !== expectedMAC.length ||
+    !timingSafeEqual(mac, expectedMAC)
+  ) {
+    throw new InvalidPasswordError()
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.slice(0, 16),
+    Buffer.from(params.cipherparams.iv, "hex")
+  )
+  const privateKey = Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final()
+  ])
+
+  return new PrivateKeySigner(privateKey.toString("hex"))
+}
+
+async function deriveKey(
+  password: string,
+  kdf: string,
+  kdfparams: IScryptParams | IPBKDF2Params
+): Promise<Buffer> {
+  const passwordBytes = Buffer.from(password.normalize("NFKC"))
+  const salt = Buffer.from(kdfparams.salt, "hex")
+
+  if (kdf === "scrypt") {
+    const { n, r, p, dklen } = kdfparams as IScryptParams
+    const key = await scrypt(passwordBytes, salt, n, r, p, dklen)
+    return Buffer.from(key.buffer as ArrayBuffer, key.byteOffset, key.length)
+  }
+
+  if (kdf === "pbkdf2") {
+    const { c, dklen, prf } = kdfparams as IPBKDF2Params
+    if (prf !== "hmac-sha256") {
+      throw new Error(`Unsupported keystore prf: ${prf}`)
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      pbkdf2(passwordBytes, salt, c, dklen, "sha256", (err, key) =>
+        err ? reject(err) : resolve(key)
+      )
+    })
+  }
+
+  throw new Error(`Unsupported keystore kdf: ${kdf}`)
+}
+
+function keystoreMAC(derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  return keccak256(Buffer.concat([derivedKey.slice(16, 32), ciphertext]))
+}
+
+function uuidV4(): string {
+  const hex = randomBytes(16).toString("hex")
+
+  // version 4, and variant 10 in the high bits of the 17th digit
+  const version = "4"
+  const variant = "89ab"[parseInt(hex[16], 16) % 4]
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    version + hex.slice(13, 16),
+    variant + hex.slice(17, 20),
+    hex.slice(20)
+  ].join("-")
+}
@@ -0,0 +1,106 @@
+import "mocha"
+import { assert } from "chai"
+
+import { InvalidPasswordError } from "./errors"
+import { decryptKeystore, encryptKeystore, IKeystore } from "./keystore"
+import { assertThrow } from "./test/assert"
+
+describe("keystore", () => {
+  const privateKey = `0x${"46".repeat(32)}`
+
+  it("decrypts the pbkdf2 test vector of Web3 Secret Storage", async () => {
+    const keystore: IKeystore = {
+      version: 3,
+      id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+      crypto: {
+        cipher: "aes-128-ctr",
+        cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+        ciphertext:
+          "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+        kdf: "pbkdf2",
+        kdfparams: {
+          c: 262144,
+          dklen: 32,
+          prf: "hmac-sha256",
+          salt:
+            "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd"
+        },
+        mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2"
+      }
+    }
+
+    const json = JSON.stringify(keystore)
+    const signer = await decryptKeystore(json, "testpassword")
+    assert.equal(
+      signer.privateKey,
+      "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d"
+    )
+  })
+
+  // n = 262144 takes a few seconds
+  it("decrypts the scrypt test vector of Web3 Secret Storage", async () => {
+    const keystore: IKeystore = {
+      version: 3,
+      id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+      crypto: {
+        cipher: "aes-128-ctr",
+        cipherparams: { iv: "83dbcc02d8ccb40e466191a123791e0e" },
+        ciphertext:
+          "d172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c",
+        kdf: "scrypt",
+        kdfparams: {
+          dklen: 32,
+          n: 262144,
+          p: 8,
+          r: 1,
+          salt:
+            "ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19"
+        },
+        mac: "2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097"
+      }
+    }
+
+    const signer = await decryptKeystore(keystore, "testpassword")
+    assert.equal(
+      signer.privateKey,
+      "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d"
+    )
+  }).timeout(60000)
+
+  it("encrypts and decrypts with scrypt", async () => {
+    const keystore = await encryptKeystore(privateKey, "secret", {
+      scryptN: 1024
+    })
+    assert.equal(keystore.crypto.kdf, "scrypt")
+    assert.equal(keystore.address, "9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f")
+    assert.match(
+      keystore.id,
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    )
+
+    const signer = await decryptKeystore(keystore, "secret")
+    assert.equal(signer.privateKey, privateKey)
+  })
+
+  it("encrypts and decrypts with pbkdf2", async () => {
+    const keystore = await encryptKeystore(privateKey, "secret", {
+      kdf: "pbkdf2",
+      pbkdf2Iterations: 1000
+    })
+
+    const signer = await decryptKeystore(keystore, "secret")
+    assert.equal(signer.privateKey, privateKey)
+  })
+
+  it("throws InvalidPasswordError if the password is wrong", async () => {
+    const keystore = await encryptKeystore(privateKey, "secret", {
+      scryptN: 1024
+    })
+
+    await assertThrow(
+      () => decryptKeystore(keystore, "wrong"),
+      "wrong password",
+      (err) => assert.instanceOf(err, InvalidPasswordError)
+    )
+  })
+})
@@ -0,0 +1,10 @@
+// Entry point for Node.js. It exports everything `index` does, plus the
+// modules that need Node's builtins (net, fs and crypto), which are left out
+// of `index` so that it can be bundled for browsers.
+
+export * from "./index"
+export * from "./HDWallet"
+export * from "./keystore"
+export * from "./IPCTransport"
+export * from "./RecordingTransport"
+export * from "./ReplayTransport"
@@ -0,0 +1,253 @@
+import axios, { CancelToken } from "axios"
+
+import { ConnectionError, RateLimitedError, RPCError } from "./errors"
+import { sleep } from "./sleep"
+
+/**
+ * Retry policy for RPC calls that fail transiently.
+ */
+export interface IRetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one. (default = 3)
+   */
+  maxAttempts?: number
+
+  /**
+   * Delay in ms before the first retry. (default = 200)
+   */
+  initialDelay?: number
+
+  /**
+   * Maximum delay in ms between retries. (default = 5000)
+   */
+  maxDelay?: number
+
+  /**
+   * Multiplier of the delay after each retry. (default = 2)
+   */
+  factor?: number
+
+  /**
+   * Randomize delays, so that clients don't retry in lockstep.
+   * (default = true)
+   */
+  jitter?: boolean
+
+  /**
+   * HTTP statuses that are retried. (default = 502, 503, 504)
+   */
+  retryableStatuses?: number[]
+
+  /**
+   * JSON-RPC error codes that are retried. (default = none)
+   */
+  retryableCodes?: number[]
+
+  /**
+   * RPC methods that are retried. (default = READ_METHODS)
+   */
+  retryableMethods?: string[]
+
+  /**
+   * Retry methods that send transactions. A retry may broadcast the same
+   * transaction twice if the first attempt reached the node. (default = false)
+   */
+  retrySend?: boolean
+}
+
+/**
+ * Read-only RPC methods, which are safe to repeat.
+ *
+ * Methods that change state on the node are not retried, even if they don't
+ * send transactions: a retried `eth_newFilter` leaks a filter, and a retried
+ * `eth_getFilterChanges` loses the changes of the first attempt.
+ */
+export const READ_METHODS = [
+  "eth_accounts",
+  "eth_blockNumber",
+  "eth_call",
+  "eth_chainId",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getFilterLogs",
+  "eth_getLogs",
+  "eth_getProof",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+  "eth_syncing",
+  "net_version",
+  "web3_clientVersion"
+]
+
+/**
+ * RPC methods that send transactions.
+ */
+export const SEND_METHODS = [
+  "eth_sendTransaction",
+  "eth_sendRawTransaction",
+  "personal_sendTransaction"
+]
+
+// error codes of failed requests, e.g. a socket reset or a timeout
+const NETWORK_ERROR_CODES = [
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH"
+]
+
+const defaultRetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 200,
+  maxDelay: 5000,
+  factor: 2,
+  jitter: true,
+  retryableStatuses: [502, 503, 504],
+  retryableCodes: [] as number[],
+  retryableMethods: READ_METHODS,
+  retrySend: false
+}
+
+/**
+ * Whether a failed call of `methods` should be retried. Only calls of
+ * retryable methods are retried, if they fail with a network error, a
+ * timeout, or a retryable HTTP status or error code. Throttled calls are
+ * retryable whatever their methods, since the node did not process them.
+ *
+ * @param methods RPC methods of the call (more than one for a batch)
+ */
+export function isRetryable(
+  err: any,
+  methods: string[],
+  policy: IRetryPolicy = {}
+): boolean {
+  const {
+    retryableStatuses,
+    retryableCodes,
+    retryableMethods,
+    retrySend
+  } = {
+    ...defaultRetryPolicy,
+    ...policy
+  }
+
+  if (err instanceof RateLimitedError) {
+    return true
+  }
+
+  const isRetryableMethod = (method: string) =>
+    retryableMethods.includes(method) ||
+    (retrySend && SEND_METHODS.includes(method))
+
+  if (!methods.every(isRetryableMethod)) {
+    return false
+  }
+
+  if (axios.isCancel(err)) {
+    return false
+  }
+
+  if (err instanceof RPCError) {
+    return (
+      (err.httpStatus != null && retryableStatuses.includes(err.httpStatus)) ||
+      (err.code != null && retryableCodes.includes(err.code))
+    )
+  }
+
+  return isNetworkError(err)
+}
+
+/**
+ * Whether the call failed because the node could not be reached, or the
+ * connection was lost, rather than because of the call itself.
+ */
+function isNetworkError(err: any): boolean {
+  if (err instanceof ConnectionError) {
+    return true
+  }
+
+  if (err == null) {
+    return false
+  }
+
+  // axios rejects without a response if the request failed
+  return (
+    NETWORK_ERROR_CODES.includes(err.code) ||
+    (err.request != null && err.response == null)
+  )
+}
+
+/**
+ * Delay in ms before a retry.
+ *
+ * @param attempt number of attempts made so far
+ */
+export function retryDelay(attempt: number, policy: IRetryPolicy = {}): number {
+  const { initialDelay, maxDelay, factor, jitter } = {
+    ...defaultRetryPolicy,
+    ...policy
+  }
+
+  const delay = Math.min(initialDelay * factor ** (attempt - 1), maxDelay)
+  if (!jitter) {
+    return delay
+  }
+
+  // "equal jitter": wait at least half of the delay
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+/**
+ * Invoke `fn`, and invoke it again with backoff if it fails with a retryable
+ * error.
+ *
+ * @param methods RPC methods of the call (more than one for a batch)
+ * @param fn makes the call
+ */
+export async function withRetry<T>(
+  methods: string[],
+  fn: () => Promise<T>,
+  policy: IRetryPolicy = {},
+  cancelToken?: CancelToken
+): Promise<T> {
+  const { maxAttempts } = { ...defaultRetryPolicy, ...policy }
+
+  let attempt = 0
+  while (true) {
+    attempt++
+
+    let lastError: any
+    try {
+      return await fn()
+    } catch (err) {
+      if (attempt >= maxAttempts || !isRetryable(err, methods, policy)) {
+        throw err
+      }
+
+      lastError = err
+    }
+
+    let delay = retryDelay(attempt, policy)
+    if (lastError instanceof RateLimitedError && lastError.retryAfter != null) {
+      delay = Math.max(delay, lastError.retryAfter * 1000)
+    }
+
+    await sleep(delay, cancelToken)
+
+    if (cancelToken && cancelToken.reason) {
+      throw cancelToken.reason
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * An RLP item: a byte string, or a list of items.
+ */
+export type RLPInput = Buffer | IRLPList
+
+// an interface, since type aliases can't refer to themselves
+export interface IRLPList extends Array<RLPInput> {}
+
+/**
+ * RLP encode an item.
+ *
+ * https://ethereum.org/en/developers/docs/data-structures-and-encoding/rlp/
+ */
+export function rlpEncode(input: RLPInput): Buffer {
+  if (Array.isArray(input)) {
+    const payload = Buffer.concat(input.map(rlpEncode))
+    return Buffer.concat([lengthPrefix(payload.length, 0xc0), payload])
+  }
+
+  // a single byte below 0x80 is its own encoding
+  if (input.length === 1 && input[0] < 0x80) {
+    return input
+  }
+
+  return Buffer.concat([lengthPrefix(input.length, 0x80), input])
+}
+
+/**
+ * Decode an RLP encoded item.
+ */
+export function rlpDecode(input: Buffer): RLPInput {
+  const [item, rest] = decodeItem(input)
+  if (rest.length > 0) {
+    throw new Error("Invalid RLP: trailing bytes")
+  }
+
+  return item
+}
+
+/**
+ * Bytes of a hex quantity as an RLP integer: big endian, without leading
+ * zeros. Zero is the empty string.
+ */
+export function rlpQuantity(hex?: string | null): Buffer {
+  const digits = (hex || "").replace(/^0x/, "").replace(/^0+/, "")
+  return Buffer.from(digits.length % 2 ? `0${digits}` : digits, "hex")
+}
+
+/**
+ * Bytes of hex data, e.g. an address or calldata.
+ */
+export function rlpBytes(hex?: string | null): Buffer {
+  return Buffer.from((hex || "").replace(/^0x/, ""), "hex")
+}
+
+function lengthPrefix(length: number, offset: number): Buffer {
+  if (length < 56) {
+    return Buffer.from([offset + length])
+  }
+
+  const lengthBytes = rlpQuantity(length.toString(16))
+  return Buffer.concat([
+    Buffer.from([offset + 55 + lengthBytes.length]),
+    lengthBytes
+  ])
+}
+
+// decode the first item of the input, and return the bytes after it
+function decodeItem(input: Buffer): [RLPInput, Buffer] {
+  if (input.length === 0) {
+    throw new Error("Invalid RLP: unexpected end of input")
+  }
+
+  if (input[0] < 0x80) {
+    return [input.slice(0, 1), input.slice(1)]
+  }
+
+  if (input[0] < 0xc0) {
+    return splitPayload(input, 0x80)
+  }
+
+  const [payload, rest] = splitPayload(input, 0xc0)
+
+  const items: RLPInput[] = []
+  let remaining = payload
+  while (remaining.length > 0) {
+    const [item, next] = decodeItem(remaining)
+    items.push(item)
+    remaining = next
+  }
+
+  return [items, rest]
+}
+
+// the inverse of lengthPrefix
+function splitPayload(input: Buffer, offset: number): [Buffer, Buffer] {
+  let start = 1
+  let length = input[0] - offset
+
+  if (length > 55) {
+    start = 1 + length - 55
+    length = parseInt(input.slice(1, start).toString("hex"), 16)
+  }
+
+  const end = start + length
+  if (end > input.length) {
+    throw new Error("Invalid RLP: unexpected end of input")
+  }
+
+  return [input.slice(start, end), input.slice(end)]
+}
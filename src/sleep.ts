@@ -1,5 +1,18 @@
-export async function sleep(ms: number) {
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms)
+import { CancelToken } from "axios"
+
+/**
+ * Wait for `ms` milliseconds. If `cancelToken` is canceled, stop waiting and
+ * reject with the cancel reason.
+ */
+export async function sleep(ms: number, cancelToken?: CancelToken) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+
+    if (cancelToken) {
+      cancelToken.promise.then((cancel) => {
+        clearTimeout(timer)
+        reject(cancel)
+      })
+    }
   })
 }
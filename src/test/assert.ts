@@ -0,0 +1,27 @@
+import { assert } from "chai"
+
+export async function assertThrow(
+  fn: () => Promise<any>,
+  msg?: string,
+  report?: (err: any) => void
+) {
+  let errorThrown: any = null
+
+  try {
+    await fn()
+  } catch (err) {
+    errorThrown = err
+  }
+
+  // assert.erro
+  if (errorThrown && report) {
+    report(errorThrown)
+  }
+
+  assert(
+    errorThrown != null,
+    msg ? `Expects error to be thrown: ${msg}` : "Expects error to be thrown"
+  )
+
+  // assert.isNotNull(errorThrown, )
+}
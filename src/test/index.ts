@@ -1,34 +1,85 @@
-import { assert } from "chai"
+import * as fs from "fs"
+import * as path from "path"
 
 import { EthRPC } from "../EthRPC"
+import { HTTPTransport } from "../HTTPTransport"
+import { RecordingTransport } from "../RecordingTransport"
+import { ReplayTransport } from "../ReplayTransport"
+import { ITransport } from "../Transport"
+
+export { assertThrow } from "./assert"
 
 export const ethRpcURL = `http://localhost:8545`
-export const ethRpc = new EthRPC(ethRpcURL)
 
-export const repoData = require("../../solar.development.json")
+// ETH_RPC_FIXTURE=record saves all RPC exchanges of a test run against the
+// node as fixtures. ETH_RPC_FIXTURE=replay runs the tests against the fixtures,
+// without a node.
+const fixtureMode = process.env.ETH_RPC_FIXTURE
+const fixturesDir = path.join(__dirname, "../../test/fixtures")
+const rpcFixturePath = path.join(fixturesDir, "rpc.json")
+const repoFixturePath = path.join(fixturesDir, "solar.json")
+const repoDataPath = path.join(__dirname, "../../solar.development.json")
+
+// why the suites that need the test node can't run, if they can't
+function missingTestData(): string | undefined {
+  if (fixtureMode === "replay") {
+    if (!fs.existsSync(rpcFixturePath) || !fs.existsSync(repoFixturePath)) {
+      return (
+        "no RPC fixtures in test/fixtures, " +
+        "record them with ETH_RPC_FIXTURE=record"
+      )
+    }
+
+    return
+  }
+
+  if (!fs.existsSync(repoDataPath)) {
+    return "solar.development.json not found, deploy the test contracts first"
+  }
+}
 
-export async function assertThrow(
-  fn: () => Promise<any>,
-  msg?: string,
-  report?: (err: any) => void
-) {
-  let errorThrown: any = null
+const missing = missingTestData()
 
-  try {
-    await fn()
-  } catch (err) {
-    errorThrown = err
+function makeTransport(): ITransport {
+  if (fixtureMode === "replay" && missing == null) {
+    return new ReplayTransport(rpcFixturePath)
   }
 
-  // assert.erro
-  if (errorThrown && report) {
-    report(errorThrown)
+  const transport = new HTTPTransport(ethRpcURL)
+  if (fixtureMode !== "record" || missing != null) {
+    return transport
   }
 
-  assert(
-    errorThrown != null,
-    msg ? `Expects error to be thrown: ${msg}` : "Expects error to be thrown"
-  )
+  const recorder = new RecordingTransport(transport)
+  process.on("exit", () => {
+    if (!fs.existsSync(fixturesDir)) {
+      fs.mkdirSync(fixturesDir)
+    }
 
-  // assert.isNotNull(errorThrown, )
+    recorder.save(rpcFixturePath)
+    fs.writeFileSync(repoFixturePath, fs.readFileSync(repoDataPath))
+  })
+
+  return recorder
+}
+
+export const ethTransport = makeTransport()
+export const ethRpc = new EthRPC(ethTransport)
+
+export const repoData =
+  missing != null
+    ? { contracts: {}, libraries: {}, related: {} }
+    : require(fixtureMode === "replay" ? repoFixturePath : repoDataPath)
+
+/**
+ * Declare a suite that runs against the test node and its deployed contracts
+ * (or their fixtures). If they are missing, the suite is reported as pending,
+ * with the reason, instead of failing.
+ */
+export function describeWithTestNode(title: string, fn: () => void) {
+  if (missing == null) {
+    describe(title, fn)
+  } else {
+    describe(title, () => it(`needs the test node: ${missing}`))
+  }
 }
@@ -0,0 +1,71 @@
+import { Contract } from "../Contract"
+import { EthRPC } from "../EthRPC"
+import { IABIMethod } from "../ethjs-abi"
+import { IMockEthNodeOptions, MockEthNode } from "../MockEthNode"
+
+export const fooABI: IABIMethod[] = [
+  {
+    name: "getFoo",
+    type: "function",
+    payable: false,
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", indexed: false }],
+    constant: true,
+    anonymous: false
+  },
+  {
+    name: "setFoo",
+    type: "function",
+    payable: false,
+    inputs: [{ name: "_foo", type: "uint256", indexed: false }],
+    outputs: [],
+    constant: false,
+    anonymous: false
+  },
+  {
+    name: "FooEvent",
+    type: "event",
+    payable: false,
+    inputs: [{ name: "a", type: "string", indexed: false }],
+    outputs: [],
+    constant: false,
+    anonymous: false
+  }
+]
+
+export const fooAddress = "0x00000000000000000000000000000000000000aa"
+
+export interface IMockFoo {
+  node: MockEthNode
+  rpc: EthRPC
+  contract: Contract
+}
+
+/**
+ * A MockEthNode, and a contract with the `fooABI` to test against it.
+ */
+export function mockFooContract(opts?: IMockEthNodeOptions): IMockFoo {
+  const node = new MockEthNode(opts)
+  const rpc = new EthRPC(node)
+  const contract = new Contract(rpc, { abi: fooABI, address: fooAddress })
+
+  return { node, rpc, contract }
+}
+
+/**
+ * Set up a new `mockFooContract` before each test of the calling `describe`
+ * block. The returned object holds the mock of the running test.
+ *
+ * @param mock the mock of an enclosing block, to set up with other options
+ * in this block
+ */
+export function useMockFoo(
+  opts?: IMockEthNodeOptions,
+  mock: IMockFoo = mockFooContract(opts)
+): IMockFoo {
+  beforeEach(() => {
+    Object.assign(mock, mockFooContract(opts))
+  })
+
+  return mock
+}